@@ -1,49 +1,194 @@
-import React, { useState, useEffect } from 'react';
-import { parseSQL, INITIAL_SQL } from './services/sqlParser';
+import React, { useState, useEffect, useRef } from 'react';
+import { INITIAL_SQL } from './services/sqlParser';
+import { startParse } from './services/parserClient';
+import { DIALECTS } from './services/sqlDialects';
+import { DEFAULT_COMMENT_SEPARATOR, DEFAULT_SAMPLE_ROW_LIMIT } from './services/schemaBuilder';
+import { DEFAULT_INFERENCE_RULES } from './services/relationshipInference';
+import { parseProjectFile, serializeProject } from './services/projectFile';
 import ERDiagram from './components/ERDiagram';
-import { TableDefinition, ViewMode } from './types';
-import { Database, Code, Upload, RefreshCw, LayoutDashboard } from 'lucide-react';
+import ProblemsPanel from './components/ProblemsPanel';
+import InferenceRulesDialog from './components/InferenceRulesDialog';
+import {
+  Diagnostic,
+  DiagnosticSeverity,
+  InferenceRules,
+  ManualRelationship,
+  ParsedSchema,
+  ParseOptions,
+  ParseProgress,
+  SqlDialect,
+  ViewMode,
+} from './types';
+import { Database, Code, Upload, RefreshCw, LayoutDashboard, FileText, Loader2, X, SlidersHorizontal, FolderOpen, Save } from 'lucide-react';
+
+// Files above this size are parsed straight from disk instead of being loaded into the textarea
+const LARGE_FILE_BYTES = 2 * 1024 * 1024;
+
+// Choices for the INSERT rows kept per table
+const SAMPLE_ROW_LIMITS = [0, 20, DEFAULT_SAMPLE_ROW_LIMIT, 1000];
+
+const formatSize = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
 
 const App = () => {
   const [sqlInput, setSqlInput] = useState<string>(INITIAL_SQL);
-  const [parsedTables, setParsedTables] = useState<TableDefinition[]>([]);
+  // A large uploaded file, used instead of sqlInput
+  const [sqlFile, setSqlFile] = useState<File | null>(null);
+  const [parsedSchema, setParsedSchema] = useState<ParsedSchema>({ dialect: SqlDialect.MYSQL, tables: [], relationships: [], routines: [], diagnostics: [] });
+  // Text the diagnostics point into; null when it was parsed straight from a large file
+  const [parsedSource, setParsedSource] = useState<string | null>(null);
+  // null means auto-detect from the input
+  const [dialect, setDialect] = useState<SqlDialect | null>(null);
+  const [sampleRowLimit, setSampleRowLimit] = useState(DEFAULT_SAMPLE_ROW_LIMIT);
+  const [splitComments, setSplitComments] = useState(true);
+  const [commentSeparator, setCommentSeparator] = useState(DEFAULT_COMMENT_SEPARATOR);
+  const [inferenceRules, setInferenceRules] = useState<InferenceRules>(DEFAULT_INFERENCE_RULES);
+  const [showRules, setShowRules] = useState(false);
+  // Drawn on the diagram; independent of the parse so they survive re-parsing
+  const [manualRelationships, setManualRelationships] = useState<ManualRelationship[]>([]);
   const [viewMode, setViewMode] = useState<ViewMode>(ViewMode.EDITOR);
   const [error, setError] = useState<string | null>(null);
+  // Set while a parse is running
+  const [progress, setProgress] = useState<ParseProgress | null>(null);
+  const cancelParseRef = useRef<(() => void) | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
 
-  const handleParse = () => {
-    try {
-      const tables = parseSQL(sqlInput);
-      if (tables.length === 0) {
-        setError("No tables found in the provided SQL.");
-      } else {
-        setParsedTables(tables);
-        setError(null);
-        setViewMode(ViewMode.EDITOR);
-      }
-    } catch (e) {
-      setError("Failed to parse SQL. Please check the syntax.");
-    }
+  const runParse = (input: string | File, options: ParseOptions = {
+    dialect: dialect ?? undefined,
+    sampleRowLimit,
+    commentSeparator: splitComments ? commentSeparator : '',
+  }) => {
+    cancelParseRef.current?.();
+    setError(null);
+    setProgress({ processed: 0, total: typeof input === 'string' ? input.length : input.size, statements: 0 });
+    const source = typeof input === 'string' ? input : null;
+    // Show the diagram as soon as the first tables arrive
+    let showingDiagram = false;
+    const finish = () => {
+      cancelParseRef.current = null;
+      setProgress(null);
+    };
+
+    cancelParseRef.current = startParse(input, options, {
+      onProgress: (schema, current) => {
+        setParsedSchema(schema);
+        setParsedSource(source);
+        setProgress(current);
+        if (!showingDiagram && schema.tables.length > 0) {
+          showingDiagram = true;
+          setViewMode(ViewMode.EDITOR);
+        }
+      },
+      onDone: schema => {
+        finish();
+        setParsedSchema(schema);
+        setParsedSource(source);
+        if (schema.tables.length === 0) {
+          setError("No tables found in the provided SQL.");
+          setViewMode(ViewMode.SQL_INPUT);
+        } else {
+          setViewMode(ViewMode.EDITOR);
+        }
+      },
+      onError: message => {
+        finish();
+        setError(message ? `Failed to parse SQL: ${message}` : "Failed to parse SQL. Please check the syntax.");
+      },
+    });
+  };
+
+  const handleParse = () => runParse(sqlFile ?? sqlInput);
+
+  // Keeps the tables parsed so far
+  const cancelParse = () => {
+    cancelParseRef.current?.();
+    cancelParseRef.current = null;
+    setProgress(null);
+  };
+
+  const errorCount = parsedSchema.diagnostics.filter(d => d.severity === DiagnosticSeverity.ERROR).length;
+
+  // Diagnostic positions only hold for the text that was parsed
+  const revealUnavailable = sqlFile || parsedSource === null
+    ? 'No SQL is loaded in the editor, so problems cannot be shown there'
+    : parsedSource !== sqlInput
+      ? 'The SQL has changed since it was parsed; parse again to jump to problems'
+      : undefined;
+
+  // Selects the line of a diagnostic in the textarea and scrolls it into view
+  const revealDiagnostic = (diagnostic: Diagnostic) => {
+    const textarea = textareaRef.current;
+    if (!textarea || revealUnavailable) return;
+    const lines = sqlInput.split('\n');
+    const lineIndex = Math.min(diagnostic.line, lines.length) - 1;
+    const lineStart = lines.slice(0, lineIndex).reduce((offset, line) => offset + line.length + 1, 0);
+    const lineEnd = lineStart + lines[lineIndex].length;
+    textarea.focus();
+    textarea.setSelectionRange(Math.min(lineStart + diagnostic.column - 1, lineEnd), lineEnd);
+    const lineHeight = parseFloat(getComputedStyle(textarea).lineHeight) || 20;
+    textarea.scrollTop = Math.max(0, lineIndex * lineHeight - textarea.clientHeight / 3);
   };
 
   useEffect(() => {
     handleParse();
+    return () => cancelParseRef.current?.();
   }, []);
 
+  // Downloads the SQL together with the parse settings, inference rules and hand-drawn relationships
+  const saveProject = async () => {
+    const sql = sqlFile ? await sqlFile.text() : sqlInput;
+    const text = serializeProject({ sql, dialect, sampleRowLimit, splitComments, commentSeparator, inferenceRules, manualRelationships });
+    const url = URL.createObjectURL(new Blob([text], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${sqlFile?.name.replace(/\.\w+$/, '') ?? 'schema'}.schemaviz.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const openProject = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const project = parseProjectFile(await file.text());
+      setDialect(project.dialect);
+      setSampleRowLimit(project.sampleRowLimit);
+      setSplitComments(project.splitComments);
+      setCommentSeparator(project.commentSeparator);
+      setInferenceRules(project.inferenceRules);
+      setManualRelationships(project.manualRelationships);
+      setSqlFile(null);
+      setSqlInput(project.sql);
+      runParse(project.sql, {
+        dialect: project.dialect ?? undefined,
+        sampleRowLimit: project.sampleRowLimit,
+        commentSeparator: project.splitComments ? project.commentSeparator : '',
+      });
+    } catch (e) {
+      setError(`Could not open ${file.name}: ${e instanceof Error ? e.message : String(e)}`);
+      setViewMode(ViewMode.SQL_INPUT);
+    }
+  };
+
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const content = e.target?.result as string;
-        setSqlInput(content);
-        // Automatically parse after upload
-        setTimeout(() => {
-            const tables = parseSQL(content);
-            setParsedTables(tables);
-        }, 100);
-      };
-      reader.readAsText(file);
+    // Allow picking the same file again
+    event.target.value = '';
+    if (!file) return;
+    if (file.size > LARGE_FILE_BYTES) {
+      setSqlFile(file);
+      runParse(file);
+      return;
     }
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const content = e.target?.result as string;
+      setSqlFile(null);
+      setSqlInput(content);
+      // Automatically parse after upload
+      runParse(content);
+    };
+    reader.readAsText(file);
   };
 
   return (
@@ -83,17 +228,47 @@ const App = () => {
             >
               <Code size={16} />
               SQL Input
+              {errorCount > 0 && (
+                <span className="rounded-full bg-red-500 px-1.5 text-[10px] font-semibold leading-4 text-white" title={`${errorCount} statements could not be parsed`}>
+                  {errorCount}
+                </span>
+              )}
             </button>
           </div>
           
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => setShowRules(true)}
+              className="rounded-full bg-slate-100 p-2 text-slate-500 hover:bg-blue-50 hover:text-blue-600 transition-colors"
+              title="Relationship inference rules"
+            >
+              <SlidersHorizontal size={18} />
+            </button>
+            <label
+              className="rounded-full bg-slate-100 p-2 text-slate-500 hover:bg-blue-50 hover:text-blue-600 transition-colors cursor-pointer"
+              title="Open project"
+            >
+              <FolderOpen size={18} />
+              <input type="file" accept=".json" className="hidden" onChange={openProject} />
+            </label>
+            <button
+              onClick={saveProject}
+              className="rounded-full bg-slate-100 p-2 text-slate-500 hover:bg-blue-50 hover:text-blue-600 transition-colors"
+              title="Save project: SQL, settings and inference rules"
+            >
+              <Save size={18} />
+            </button>
+          </div>
+
           <a 
             href="#" 
             className="ml-2 rounded-full bg-slate-100 p-2 text-slate-500 hover:bg-blue-50 hover:text-blue-600 transition-colors"
             title="Reload Default Data"
             onClick={(e) => {
                 e.preventDefault();
+                setSqlFile(null);
                 setSqlInput(INITIAL_SQL);
-                handleParse();
+                runParse(INITIAL_SQL);
             }}
           >
             <RefreshCw size={18} />
@@ -103,10 +278,37 @@ const App = () => {
 
       {/* Main Content */}
       <main className="flex-1 relative overflow-hidden">
+        {progress && (
+            <div className="absolute top-3 left-1/2 -translate-x-1/2 z-20 flex items-center gap-3 bg-white border border-slate-200 rounded-lg shadow-lg px-4 py-2 text-sm">
+                <Loader2 size={16} className="animate-spin text-blue-600" />
+                <div className="flex flex-col gap-1 w-56">
+                    <span className="text-slate-600">
+                        Parsing… {progress.statements.toLocaleString()} statements, {parsedSchema.tables.length.toLocaleString()} tables
+                    </span>
+                    <div className="h-1.5 rounded-full bg-slate-100 overflow-hidden">
+                        <div
+                            className="h-full bg-blue-500 transition-all"
+                            style={{ width: `${progress.total > 0 ? Math.round((progress.processed / progress.total) * 100) : 0}%` }}
+                        />
+                    </div>
+                </div>
+                <button onClick={cancelParse} className="text-slate-400 hover:text-red-600 transition-colors" title="Cancel parsing">
+                    <X size={16} />
+                </button>
+            </div>
+        )}
         {viewMode === ViewMode.EDITOR ? (
             <div className="w-full h-full">
-                {parsedTables.length > 0 ? (
-                    <ERDiagram tables={parsedTables} />
+                {parsedSchema.tables.length > 0 ? (
+                    <ERDiagram
+                        tables={parsedSchema.tables}
+                        relationships={parsedSchema.relationships}
+                        routines={parsedSchema.routines}
+                        inferenceRules={inferenceRules}
+                        manualRelationships={manualRelationships}
+                        onManualRelationshipsChange={setManualRelationships}
+                        parsing={progress !== null}
+                    />
                 ) : (
                      <div className="flex flex-col items-center justify-center h-full text-slate-400">
                         <Database size={48} className="mb-4 opacity-20" />
@@ -119,7 +321,46 @@ const App = () => {
             <div className="bg-white rounded-xl shadow-sm border border-slate-200 flex-1 flex flex-col overflow-hidden">
                 <div className="flex items-center justify-between p-4 border-b border-slate-100 bg-slate-50/50">
                     <h2 className="font-semibold text-slate-700">SQL DDL Input</h2>
-                    <div className="flex gap-3">
+                    <div className="flex flex-wrap justify-end gap-3">
+                        <select
+                            value={dialect ?? 'AUTO'}
+                            onChange={(e) => setDialect(e.target.value === 'AUTO' ? null : e.target.value as SqlDialect)}
+                            className="px-3 py-1.5 bg-white border border-slate-200 rounded-lg text-sm font-medium text-slate-600 hover:border-blue-400 focus:outline-none focus:border-blue-400 transition-colors"
+                            title="SQL dialect"
+                        >
+                            <option value="AUTO">Auto-detect dialect</option>
+                            {Object.values(DIALECTS).map(config => (
+                                <option key={config.dialect} value={config.dialect}>{config.label}</option>
+                            ))}
+                        </select>
+                        <select
+                            value={sampleRowLimit}
+                            onChange={(e) => setSampleRowLimit(Number(e.target.value))}
+                            className="px-3 py-1.5 bg-white border border-slate-200 rounded-lg text-sm font-medium text-slate-600 hover:border-blue-400 focus:outline-none focus:border-blue-400 transition-colors"
+                            title="INSERT rows kept per table"
+                        >
+                            {SAMPLE_ROW_LIMITS.map(limit => (
+                                <option key={limit} value={limit}>{limit === 0 ? 'No sample data' : `${limit} rows per table`}</option>
+                            ))}
+                        </select>
+                        <label
+                            className="flex items-center gap-2 px-3 py-1.5 bg-white border border-slate-200 rounded-lg text-sm font-medium text-slate-600"
+                            title="Split comments such as '机构号|所属机构号' into a short label and a description"
+                        >
+                            <input
+                                type="checkbox"
+                                checked={splitComments}
+                                onChange={(e) => setSplitComments(e.target.checked)}
+                                className="accent-blue-600"
+                            />
+                            Split comments on
+                            <input
+                                value={commentSeparator}
+                                onChange={(e) => setCommentSeparator(e.target.value)}
+                                disabled={!splitComments}
+                                className="w-8 px-1 border border-slate-200 rounded text-center font-mono focus:outline-none focus:border-blue-400 disabled:text-slate-300"
+                            />
+                        </label>
                          <label className="flex items-center gap-2 px-3 py-1.5 bg-white border border-slate-200 rounded-lg text-sm font-medium text-slate-600 cursor-pointer hover:border-blue-400 hover:text-blue-600 transition-colors">
                             <Upload size={16} />
                             Upload .sql
@@ -135,16 +376,35 @@ const App = () => {
                 </div>
                 
                 <div className="relative flex-1">
-                    <textarea
-                        className="w-full h-full p-4 font-mono text-sm resize-none focus:outline-none focus:bg-blue-50/10 text-slate-700"
-                        value={sqlInput}
-                        onChange={(e) => setSqlInput(e.target.value)}
-                        placeholder="Paste your CREATE TABLE statements here..."
-                        spellCheck={false}
-                    />
+                    {sqlFile ? (
+                        <div className="flex flex-col items-center justify-center h-full gap-3 text-slate-500 text-sm">
+                            <FileText size={40} className="text-slate-300" />
+                            <p>
+                                <span className="font-medium text-slate-700">{sqlFile.name}</span> ({formatSize(sqlFile.size)}) is parsed directly from the file.
+                            </p>
+                            <button onClick={() => setSqlFile(null)} className="text-blue-600 hover:underline">
+                                Edit SQL in the text box instead
+                            </button>
+                        </div>
+                    ) : (
+                        <textarea
+                            ref={textareaRef}
+                            className="w-full h-full p-4 font-mono text-sm resize-none focus:outline-none focus:bg-blue-50/10 text-slate-700"
+                            value={sqlInput}
+                            onChange={(e) => setSqlInput(e.target.value)}
+                            placeholder="Paste your CREATE TABLE statements here..."
+                            spellCheck={false}
+                        />
+                    )}
                 </div>
             </div>
             
+            <ProblemsPanel
+                diagnostics={parsedSchema.diagnostics}
+                onSelect={revealDiagnostic}
+                unavailableReason={revealUnavailable}
+            />
+
             {error && (
                 <div className="bg-red-50 text-red-600 px-4 py-3 rounded-lg border border-red-200 text-sm flex items-center gap-2 animate-in fade-in slide-in-from-bottom-2">
                     <div className="w-2 h-2 rounded-full bg-red-500" />
@@ -153,11 +413,18 @@ const App = () => {
             )}
             
             <div className="text-center text-xs text-slate-400 py-2">
-                Supports MySQL syntax. Paste definitions to generate nodes.
+                Supports {Object.values(DIALECTS).map(config => config.label).join(', ')} syntax. Paste definitions to generate nodes.
+                {dialect === null && parsedSchema.tables.length > 0 && (
+                    <span className="ml-1">Detected: {DIALECTS[parsedSchema.dialect].label}.</span>
+                )}
             </div>
           </div>
         )}
       </main>
+
+      {showRules && (
+        <InferenceRulesDialog rules={inferenceRules} onChange={setInferenceRules} onClose={() => setShowRules(false)} />
+      )}
     </div>
   );
 };
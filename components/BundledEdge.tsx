@@ -0,0 +1,88 @@
+import React from 'react';
+import { BaseEdge, EdgeProps, getSmoothStepPath, internalsSymbol, Node, Position, ReactFlowState, useStore, XYPosition } from 'reactflow';
+import { RelationshipEdgeData, RelationshipEnds } from './RelationshipEdge';
+
+export interface BundledEdgeData extends RelationshipEdgeData {
+  // One handle per column of a composite key, in key order
+  sourceHandles: string[];
+  targetHandles: string[];
+}
+
+// Distance from the node at which the column branches join the trunk
+const BRANCH_LENGTH = 24;
+
+// Absolute centre of each handle, skipping handles that are not rendered
+const handleCenters = (node: Node | undefined, type: 'source' | 'target', ids: string[]): XYPosition[] => {
+  const bounds = node?.[internalsSymbol]?.handleBounds?.[type] ?? [];
+  const origin = node?.positionAbsolute ?? { x: 0, y: 0 };
+  return ids.flatMap(id => {
+    const handle = bounds.find(h => h.id === id);
+    return handle ? [{ x: origin.x + handle.x + handle.width / 2, y: origin.y + handle.y + handle.height / 2 }] : [];
+  });
+};
+
+const branchPath = (from: XYPosition, to: XYPosition) => {
+  const middle = (from.x + to.x) / 2;
+  return `M ${from.x},${from.y} C ${middle},${from.y} ${middle},${to.y} ${to.x},${to.y}`;
+};
+
+// A relationship over several columns: each column branches into a single trunk between the tables,
+// with the cardinality drawn where the trunk meets the branches
+const BundledEdge = ({
+  id,
+  source,
+  target,
+  sourceX,
+  sourceY,
+  targetX,
+  targetY,
+  sourcePosition,
+  targetPosition,
+  data,
+  style,
+  label,
+}: EdgeProps<BundledEdgeData>) => {
+  const sourceNode = useStore((store: ReactFlowState) => store.nodeInternals.get(source));
+  const targetNode = useStore((store: ReactFlowState) => store.nodeInternals.get(target));
+
+  const sources = handleCenters(sourceNode, 'source', data?.sourceHandles ?? []);
+  const targets = handleCenters(targetNode, 'target', data?.targetHandles ?? []);
+  if (sources.length === 0) sources.push({ x: sourceX, y: sourceY });
+  if (targets.length === 0) targets.push({ x: targetX, y: targetY });
+
+  const average = (points: XYPosition[]) => points.reduce((sum, p) => sum + p.y, 0) / points.length;
+  const sourceJoin = { x: sourceX + (sourcePosition === Position.Left ? -BRANCH_LENGTH : BRANCH_LENGTH), y: average(sources) };
+  const targetJoin = { x: targetX + (targetPosition === Position.Right ? BRANCH_LENGTH : -BRANCH_LENGTH), y: average(targets) };
+  const [trunkPath, labelX, labelY] = getSmoothStepPath({
+    sourceX: sourceJoin.x,
+    sourceY: sourceJoin.y,
+    sourcePosition,
+    targetX: targetJoin.x,
+    targetY: targetJoin.y,
+    targetPosition,
+  });
+
+  return (
+    <>
+      {sources.map((point, index) => (
+        <path key={`s${index}`} d={branchPath(point, sourceJoin)} fill="none" className="react-flow__edge-path" style={style} />
+      ))}
+      <BaseEdge id={id} path={trunkPath} style={style} label={label} labelX={labelX} labelY={labelY} />
+      {targets.map((point, index) => (
+        <path key={`t${index}`} d={branchPath(targetJoin, point)} fill="none" className="react-flow__edge-path" style={style} />
+      ))}
+      <g style={{ opacity: style?.opacity }}>
+        <RelationshipEnds
+          source={{ ...sourceJoin, position: sourcePosition }}
+          target={{ ...targetJoin, position: targetPosition }}
+          labelX={labelX}
+          labelY={labelY}
+          data={data}
+          color={(style?.stroke as string) ?? '#64748b'}
+        />
+      </g>
+    </>
+  );
+};
+
+export default BundledEdge;
@@ -1,145 +1,397 @@
-import React, { useCallback, useEffect, useMemo, useState, MouseEvent } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState, MouseEvent } from 'react';
 import ReactFlow, {
   Background,
   Controls,
   MiniMap,
   useNodesState,
   useEdgesState,
-  addEdge,
   Connection,
   Edge,
   Node,
   MarkerType,
   useReactFlow,
   ReactFlowProvider,
+  Panel,
+  XYPosition,
 } from 'reactflow';
+import { Pencil, Search, SlidersHorizontal, Trash2 } from 'lucide-react';
 import TableNode from './TableNode';
-import { TableDefinition } from '../types';
+import BundledEdge, { BundledEdgeData } from './BundledEdge';
+import RelationshipEdge, { RelationshipEdgeData } from './RelationshipEdge';
+import TableDetails from './TableDetails';
+import RelationshipDialog from './RelationshipDialog';
+import { findJunctionTables, inferRelationships } from '../services/relationshipInference';
+import { deriveCardinality } from '../services/cardinality';
+import {
+  Cardinality,
+  ColumnLabelMode,
+  InferenceRules,
+  ManualRelationship,
+  RelationshipDefinition,
+  RelationshipNotation,
+  RoutineDefinition,
+  RoutineKind,
+  TableDefinition,
+  TableKind,
+} from '../types';
 
 interface ERDiagramProps {
   tables: TableDefinition[];
+  relationships: RelationshipDefinition[];
+  routines: RoutineDefinition[];
+  inferenceRules: InferenceRules;
+  manualRelationships: ManualRelationship[];
+  onManualRelationshipsChange: (relationships: ManualRelationship[]) => void;
+  // Set while the tables are snapshots of a parse that is still running
+  parsing?: boolean;
 }
 
-// Columns to ignore when automatically inferring relationships
-const IGNORED_FK_COLUMNS = new Set([
-  'COMPANY',
-  'TRAN_TIMESTAMP',
-  'USER_ID',
-  'CREATE_USER_ID',
-  'LAST_CHANGE_USER_ID',
-  'APPR_USER_ID',
-  'AUTH_USER_ID',
-  'CREATE_DATE',
-  'UPDATE_DATE',
-  'LAST_CHANGE_DATE',
-  'TRAN_DATE',
-  'RUN_DATE',
-  'JOB_RUN_ID',
-  'BATCH_NO',
-  'REMARK',
-  'REMARK1',
-  'REMARK2',
-  'REMARK3',
-  'ERROR_CODE',
-  'ERROR_DESC'
-]);
-
-const getLayoutedNodes = (tables: TableDefinition[]): Node[] => {
-  const nodes: Node[] = [];
-  const spacingX = 400;
-  const spacingY = 400;
+type EdgeKind = 'declared' | 'manual' | 'inferred' | 'lineage' | 'trigger' | 'junction';
+
+// Declared foreign keys are drawn solid and darker, hand-drawn ones solid in indigo; name-based
+// guesses are dashed.
+// Lineage edges run from a base table to the views that read it, trigger edges from
+// a table to the tables its triggers write. Junction edges stand in for a collapsed
+// link table between the two tables it links.
+const EDGE_STYLES: Record<EdgeKind, { stroke: string; strokeWidth: number; markerColor: string; strokeDasharray?: string }> = {
+  declared: { stroke: '#64748b', strokeWidth: 1.5, markerColor: '#475569' },
+  manual: { stroke: '#818cf8', strokeWidth: 1.5, markerColor: '#6366f1' },
+  inferred: { stroke: '#cbd5e1', strokeWidth: 1, markerColor: '#94a3b8', strokeDasharray: '5 5' },
+  lineage: { stroke: '#a78bfa', strokeWidth: 1.5, markerColor: '#8b5cf6', strokeDasharray: '2 4' },
+  trigger: { stroke: '#fb7185', strokeWidth: 1.5, markerColor: '#f43f5e', strokeDasharray: '6 3' },
+  junction: { stroke: '#14b8a6', strokeWidth: 2, markerColor: '#0d9488' },
+};
+
+// Header accents for tables when more than one schema is loaded
+const SCHEMA_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#8b5cf6', '#ef4444', '#06b6d4', '#ec4899', '#84cc16'];
+
+// Key for tables created without a schema
+const DEFAULT_SCHEMA = '';
+
+const schemaOf = (table: TableDefinition) => table.schema ?? DEFAULT_SCHEMA;
+
+// Inferred edges get thicker and more opaque with confidence; others are drawn as they are
+const edgeWeight = (kind: EdgeKind, confidence?: number) =>
+  confidence === undefined
+    ? { strokeWidth: EDGE_STYLES[kind].strokeWidth, opacity: 1 }
+    : { strokeWidth: EDGE_STYLES[kind].strokeWidth * (0.5 + 1.5 * confidence), opacity: 0.3 + 0.7 * confidence };
+
+const edgeStyle = (kind: EdgeKind, confidence?: number) => {
+  const { stroke, strokeDasharray } = EDGE_STYLES[kind];
+  return { stroke, strokeDasharray, ...edgeWeight(kind, confidence) };
+};
+
+// Edge for a declared or inferred relationship, drawn between the first columns of each side
+// with its cardinality at the ends
+const relationshipEdge = (rel: RelationshipDefinition, kind: EdgeKind, notation: RelationshipNotation): Edge => {
+  const sourceColumn = rel.sourceColumns[0];
+  const targetColumn = rel.targetColumns[0] ?? sourceColumn;
+  const data: RelationshipEdgeData = { kind, confidence: rel.confidence, cardinality: rel.cardinality, optional: rel.optional, notation };
+  return {
+    id: `e-${rel.id}`,
+    source: rel.sourceTable,
+    target: rel.targetTable,
+    sourceHandle: `${sourceColumn}-source`,
+    targetHandle: `${targetColumn}-target`,
+    animated: false,
+    label: rel.name,
+    style: edgeStyle(kind, rel.confidence),
+    // A composite key is drawn as one edge whose branches start at each of its columns
+    type: rel.sourceColumns.length > 1 ? 'bundled' : 'relationship',
+    data: rel.sourceColumns.length > 1
+      ? {
+          ...data,
+          sourceHandles: rel.sourceColumns.map(column => `${column}-source`),
+          targetHandles: rel.targetColumns.map(column => `${column}-target`),
+        } as BundledEdgeData
+      : data,
+  };
+};
+
+// Column of a TableNode handle id such as CLIENT_NO-source; undefined for the table-level handles
+const handleColumn = (handle: string | null | undefined) => {
+  const match = /^(.*)-(source|target)$/.exec(handle ?? '');
+  return match && match[1] !== 'table' ? match[1] : undefined;
+};
+
+const sameName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+// A hand-drawn relationship in the current spelling of its table and column names, which are
+// matched case-insensitively like everywhere else; undefined while any of them is missing
+const resolveManual = (rel: ManualRelationship, tables: TableDefinition[]): ManualRelationship | undefined => {
+  const source = tables.find(t => sameName(t.id, rel.sourceTable));
+  const target = tables.find(t => sameName(t.id, rel.targetTable));
+  if (!source || !target) return undefined;
+  const sourceColumns = rel.sourceColumns.map(name => source.columns.find(c => sameName(c.name, name))?.name);
+  const targetColumns = rel.targetColumns.map(name => target.columns.find(c => sameName(c.name, name))?.name);
+  if (![...sourceColumns, ...targetColumns].every(Boolean)) return undefined;
+  return { ...rel, sourceTable: source.id, sourceColumns, targetTable: target.id, targetColumns };
+};
+
+const LAYOUT_SPACING = 400;
+
+const tableNode = (table: TableDefinition, schemaColors: Map<string, string>, position: XYPosition): Node => ({
+  id: table.id,
+  type: 'table',
+  position,
+  data: {
+    label: table.name,
+    kind: table.kind,
+    partitioning: table.partitioning,
+    schema: table.schema,
+    schemaColor: schemaColors.size > 1 ? schemaColors.get(schemaOf(table)) : undefined,
+    comment: table.label ?? '',
+    description: table.description,
+    columns: table.columns,
+    indexes: table.indexes,
+    sampleData: table.sampleData,
+  },
+});
+
+// Lays the tables out in a grid whose first row is at `top`
+const getLayoutedNodes = (tables: TableDefinition[], schemaColors: Map<string, string>, top = 0): Node[] => {
   const columns = Math.ceil(Math.sqrt(tables.length)) + 2;
+  // Keep each schema's tables next to each other in the grid
+  const schemaOrder = [...schemaColors.keys()];
+  const ordered = [...tables].sort((a, b) => schemaOrder.indexOf(schemaOf(a)) - schemaOrder.indexOf(schemaOf(b)));
 
-  tables.forEach((table, index) => {
-    const x = (index % columns) * spacingX;
-    const y = Math.floor(index / columns) * spacingY;
-
-    nodes.push({
-      id: table.id,
-      type: 'table',
-      position: { x, y },
-      data: {
-        label: table.name,
-        comment: table.comment,
-        columns: table.columns,
-      },
-    });
+  return ordered.map((table, index) => tableNode(table, schemaColors, {
+    x: (index % columns) * LAYOUT_SPACING,
+    y: top + Math.floor(index / columns) * LAYOUT_SPACING,
+  }));
+};
+
+// Carries the hidden flag and display state of nodes already on the canvas over to rebuilt ones
+const keepNodeState = (previous: Node[], nodes: Node[]): Node[] => {
+  const byId = new Map(previous.map(node => [node.id, node]));
+  return nodes.map(node => {
+    const old = byId.get(node.id);
+    return old ? { ...node, hidden: old.hidden, data: { ...old.data, ...node.data } } : node;
   });
+};
 
-  return nodes;
+// Nodes for another snapshot of a running parse: tables already on the canvas stay where they
+// are, new ones are laid out in rows below them
+const placeNewTables = (previous: Node[], tables: TableDefinition[], schemaColors: Map<string, string>): Node[] => {
+  const byId = new Map(previous.map(node => [node.id, node]));
+  const placed = tables.flatMap(table => {
+    const old = byId.get(table.id);
+    return old ? [tableNode(table, schemaColors, old.position)] : [];
+  });
+  const bottom = placed.reduce((y, node) => Math.max(y, node.position.y), -LAYOUT_SPACING);
+  const added = getLayoutedNodes(tables.filter(t => !byId.has(t.id)), schemaColors, bottom + LAYOUT_SPACING);
+  return keepNodeState(previous, [...placed, ...added]);
 };
 
-const ERDiagramContent: React.FC<ERDiagramProps> = ({ tables }) => {
+const ERDiagramContent: React.FC<ERDiagramProps> = ({
+  tables,
+  relationships,
+  routines,
+  inferenceRules,
+  manualRelationships,
+  onManualRelationshipsChange,
+  parsing = false,
+}) => {
   const nodeTypes = useMemo(() => ({ table: TableNode }), []);
+  const edgeTypes = useMemo(() => ({ relationship: RelationshipEdge, bundled: BundledEdge }), []);
   const [nodes, setNodes, onNodesChange] = useNodesState([]);
   const [edges, setEdges, onEdgesChange] = useEdgesState([]);
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+  const [hiddenSchemas, setHiddenSchemas] = useState<Set<string>>(new Set());
+  const [searchQuery, setSearchQuery] = useState('');
+  const [columnLabelMode, setColumnLabelMode] = useState<ColumnLabelMode>(ColumnLabelMode.BOTH);
+  const [notation, setNotation] = useState<RelationshipNotation>(RelationshipNotation.CROWS_FOOT);
+  const [showTriggerEdges, setShowTriggerEdges] = useState(true);
+  // Inferred edges scoring below this are hidden
+  const [minConfidence, setMinConfidence] = useState(0);
+  // Link tables are drawn as a single N:M edge unless clicked open
+  const [collapseJunctions, setCollapseJunctions] = useState(false);
+  const [expandedJunctions, setExpandedJunctions] = useState<Set<string>>(new Set());
+  // Hand-drawn relationship open in the editor, and the edge context menu
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [edgeMenu, setEdgeMenu] = useState<{ id: string; x: number; y: number } | null>(null);
   const { fitView } = useReactFlow();
+  // Tables the canvas was last laid out for, and whether they are snapshots of a running parse
+  const laidOutTablesRef = useRef<TableDefinition[] | null>(null);
+  const placedWhileParsingRef = useRef(false);
 
-  // Initialize nodes and edges when tables change
-  useEffect(() => {
-    const layoutedNodes = getLayoutedNodes(tables);
-    
-    const newEdges: Edge[] = [];
-    const pkMap = new Map<string, string>(); 
-    
+  // Schemas in order of first appearance, each with a stable color
+  const schemaColors = useMemo(() => {
+    const colors = new Map<string, string>();
     tables.forEach(t => {
-        t.columns.forEach(c => {
-            if(c.isPrimaryKey && !IGNORED_FK_COLUMNS.has(c.name)) {
-                if (c.name.toUpperCase() !== 'ID') {
-                    if (c.name === 'CLIENT_NO' && t.name === 'cif_client') {
-                        pkMap.set(c.name, t.id);
-                    } else if (!pkMap.has(c.name)) {
-                        pkMap.set(c.name, t.id);
-                    }
-                }
-            }
+      if (!colors.has(schemaOf(t))) colors.set(schemaOf(t), SCHEMA_COLORS[colors.size % SCHEMA_COLORS.length]);
+    });
+    return colors;
+  }, [tables]);
+
+  const toggleSchema = (schema: string) => {
+    setHiddenSchemas(prev => {
+      const next = new Set(prev);
+      if (next.has(schema)) next.delete(schema);
+      else next.add(schema);
+      return next;
+    });
+  };
+
+  // Hand-drawn relationships whose tables and columns the parsed schema still has
+  const drawnRelationships = useMemo(
+    () => manualRelationships.flatMap(rel => resolveManual(rel, tables) ?? []),
+    [tables, manualRelationships],
+  );
+
+  // Hand-drawn relationships count as declared, so no guess duplicates them
+  const knownRelationships = useMemo(() => [...relationships, ...drawnRelationships], [relationships, drawnRelationships]);
+
+  const inferredRelationships = useMemo(
+    () => inferRelationships(tables, knownRelationships, inferenceRules),
+    [tables, knownRelationships, inferenceRules],
+  );
+
+  const junctions = useMemo(
+    () => findJunctionTables(tables, [...knownRelationships, ...inferredRelationships], inferenceRules),
+    [tables, knownRelationships, inferredRelationships, inferenceRules],
+  );
+
+  // Every edge in its resting style. Rebuilt without laying the tables out again, e.g. when the
+  // inference rules or the notation change.
+  const baseEdges = useMemo(() => {
+    const newEdges: Edge[] = relationships.map(rel => relationshipEdge(rel, 'declared', notation));
+    drawnRelationships.forEach(rel => newEdges.push(relationshipEdge(rel, 'manual', notation)));
+
+    tables.forEach(view => {
+        view.dependencies?.forEach(sourceId => {
+            newEdges.push({
+                id: `e-lineage-${sourceId}-${view.id}`,
+                source: sourceId,
+                target: view.id,
+                sourceHandle: 'table-source',
+                targetHandle: 'table-target',
+                animated: false,
+                style: edgeStyle('lineage'),
+                type: 'smoothstep',
+                markerEnd: {
+                    type: MarkerType.ArrowClosed,
+                    color: EDGE_STYLES.lineage.markerColor
+                },
+                data: { kind: 'lineage' as EdgeKind },
+            });
         });
     });
 
-    tables.forEach(t => {
-        t.columns.forEach(c => {
-            if (IGNORED_FK_COLUMNS.has(c.name)) return;
-            if (pkMap.has(c.name)) {
-                const targetTableId = pkMap.get(c.name);
-                if (targetTableId && targetTableId !== t.id) {
-                     newEdges.push({
-                        id: `e-${t.id}-${c.name}-${targetTableId}`,
-                        source: t.id,
-                        target: targetTableId,
-                        sourceHandle: `${c.name}-source`,
-                        targetHandle: `${c.name}-target`, 
-                        animated: false,
-                        style: { stroke: '#cbd5e1', strokeWidth: 1 },
-                        type: 'smoothstep',
-                        markerEnd: {
-                            type: MarkerType.ArrowClosed,
-                            color: '#94a3b8'
-                        },
-                     });
-                }
-            }
+    routines.forEach(trigger => {
+        const sourceId = trigger.table;
+        if (trigger.kind !== RoutineKind.TRIGGER || !sourceId) return;
+        trigger.writes.filter(targetId => targetId !== sourceId).forEach(targetId => {
+            newEdges.push({
+                id: `e-trigger-${trigger.id}-${targetId}`,
+                source: sourceId,
+                target: targetId,
+                sourceHandle: 'table-source',
+                targetHandle: 'table-target',
+                animated: false,
+                label: trigger.name,
+                style: edgeStyle('trigger'),
+                type: 'smoothstep',
+                markerEnd: {
+                    type: MarkerType.ArrowClosed,
+                    color: EDGE_STYLES.trigger.markerColor
+                },
+                data: { kind: 'trigger' as EdgeKind },
+            });
         });
     });
 
-    setNodes(layoutedNodes);
-    setEdges(newEdges);
-    setSelectedNodeId(null);
-    
+    inferredRelationships.forEach(rel => newEdges.push(relationshipEdge(rel, 'inferred', notation)));
+
+    // Hidden until its link table is collapsed
+    junctions.forEach(({ table, relationships: [left, right] }) => {
+        const data: RelationshipEdgeData & { junction: string } = {
+            kind: 'junction',
+            cardinality: Cardinality.MANY_TO_MANY,
+            optional: false,
+            notation,
+            junction: table,
+        };
+        newEdges.push({
+            id: `e-junction-${table}`,
+            source: left.targetTable,
+            target: right.targetTable,
+            sourceHandle: `${left.targetColumns[0]}-source`,
+            targetHandle: `${right.targetColumns[0]}-target`,
+            animated: false,
+            hidden: true,
+            label: tables.find(t => t.id === table)?.name ?? table,
+            style: edgeStyle('junction'),
+            type: 'relationship',
+            data,
+        });
+    });
+    return newEdges;
+  }, [tables, relationships, drawnRelationships, routines, inferredRelationships, junctions, notation]);
+
+  // Lay the tables out again when they change. While a parse is running only its new tables
+  // are placed, so the canvas stays usable; the full layout follows once it has finished.
+  useEffect(() => {
+    // Starting a parse, or cancelling it before any tables arrived, leaves the canvas as it is
+    if (tables === laidOutTablesRef.current && !placedWhileParsingRef.current) return;
+    laidOutTablesRef.current = tables;
+
+    // Selections and filters made while the tables streamed in still apply
+    const streamed = placedWhileParsingRef.current;
+    if (!streamed) {
+      setSelectedNodeId(null);
+      setHiddenSchemas(new Set());
+      setExpandedJunctions(new Set());
+    }
+    if (parsing) {
+      setNodes(nds => placeNewTables(streamed ? nds : [], tables, schemaColors));
+      placedWhileParsingRef.current = true;
+      return;
+    }
+    setNodes(nds => keepNodeState(nds, getLayoutedNodes(tables, schemaColors)));
+    placedWhileParsingRef.current = false;
+
     setTimeout(() => fitView({ padding: 0.2 }), 100);
 
-  }, [tables, setNodes, setEdges, fitView]);
+  }, [tables, schemaColors, parsing, setNodes, fitView]);
+
+  useEffect(() => {
+    setEdges(baseEdges);
+  }, [baseEdges, setEdges]);
+
+  // Hide the tables of filtered-out schemas and collapsed link tables along with every edge
+  // touching them; a junction edge shows only while its link table is collapsed
+  useEffect(() => {
+    const schemaById = new Map(tables.map(t => [t.id, schemaOf(t)]));
+    const collapsed = new Set(collapseJunctions ? junctions.map(j => j.table).filter(id => !expandedJunctions.has(id)) : []);
+    const isHidden = (id: string) => hiddenSchemas.has(schemaById.get(id) ?? DEFAULT_SCHEMA) || collapsed.has(id);
+    setNodes(nds => nds.map(node => (!!node.hidden === isHidden(node.id) ? node : { ...node, hidden: isHidden(node.id) })));
+    setEdges(eds => eds.map(edge => {
+      const junction: string | undefined = edge.data?.junction;
+      const hidden = isHidden(edge.source) || isHidden(edge.target) || (junction !== undefined && !collapsed.has(junction));
+      return !!edge.hidden === hidden ? edge : { ...edge, hidden };
+    }));
+    if (hiddenSchemas.size > 0 || collapsed.size > 0) setSelectedNodeId(id => (id && isHidden(id) ? null : id));
+  }, [hiddenSchemas, collapseJunctions, expandedJunctions, junctions, tables, baseEdges, setNodes, setEdges]);
+
+  const hasTriggerEdges = edges.some(e => e.data?.kind === 'trigger');
+  const hasInferredEdges = edges.some(e => e.data?.kind === 'inferred');
+  // Trigger edges and weak guesses can be switched off without laying the diagram out again
+  const visibleEdges = useMemo(
+    () => edges.filter(e => (showTriggerEdges || e.data?.kind !== 'trigger') && (e.data?.confidence ?? 1) >= minConfidence),
+    [edges, showTriggerEdges, minConfidence],
+  );
 
   // Create a structural fingerprint for edges to break dependency loops.
   // We only want to recalculate highlighting logic if the connections change, 
-  // not when we just update the style of an edge.
+  // not when we just update the style of an edge. Hidden edges connect nothing.
   const topologyFingerprint = useMemo(() => {
-    return edges.map(e => `${e.source}|${e.target}`).sort().join('||');
-  }, [edges]);
+    return visibleEdges.filter(e => !e.hidden).map(e => `${e.source}|${e.target}`).sort().join('||');
+  }, [visibleEdges]);
 
   const adjacency = useMemo(() => {
     const map = new Map<string, Set<string>>();
-    edges.forEach(e => {
+    visibleEdges.filter(e => !e.hidden).forEach(e => {
         if(!map.has(e.source)) map.set(e.source, new Set());
         if(!map.has(e.target)) map.set(e.target, new Set());
         map.get(e.source)?.add(e.target);
@@ -148,25 +400,61 @@ const ERDiagramContent: React.FC<ERDiagramProps> = ({ tables }) => {
     return map;
   }, [topologyFingerprint]); // Depends on the fingerprint, not the edges array reference
 
+  // Matching tables with their matching columns; names, labels and full descriptions are searched
+  const searchMatches = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    if (!query) return null;
+    const hit = (...texts: string[]) => texts.some(text => text.toLowerCase().includes(query));
+    const matches = new Map<string, string[]>();
+    tables.forEach(table => {
+      const columns = table.columns.filter(c => hit(c.name, c.comment)).map(c => c.name);
+      if (columns.length > 0 || hit(table.name, table.comment)) matches.set(table.id, columns);
+    });
+    return matches;
+  }, [tables, searchQuery]);
+
   const onNodeClick = (_: MouseEvent, node: Node) => {
     setSelectedNodeId(node.id);
+    setEdgeMenu(null);
   };
 
+  const selectedTable = selectedNodeId ? tables.find(t => t.id === selectedNodeId) : undefined;
+
   const onPaneClick = () => {
     setSelectedNodeId(null);
+    setEdgeMenu(null);
+  };
+
+  // Clicking a junction edge brings its link table back
+  const onEdgeClick = (_: MouseEvent, edge: Edge) => {
+    setEdgeMenu(null);
+    const junction: string | undefined = edge.data?.junction;
+    if (!junction) return;
+    setExpandedJunctions(prev => new Set(prev).add(junction));
+    setSelectedNodeId(junction);
   };
 
-  // Update node and edge styles based on selection
+  // Update node and edge styles based on selection, search and display settings.
+  // A selection takes precedence over the search when deciding what to dim. Depending on
+  // `tables` and `baseEdges` re-applies the styles to freshly built nodes and edges.
   useEffect(() => {
     setNodes((nds) =>
       nds.map((node) => {
         const isSelected = node.id === selectedNodeId;
         const isNeighbor = selectedNodeId ? adjacency.get(selectedNodeId)?.has(node.id) : false;
-        
-        const shouldDim = selectedNodeId !== null && !isSelected && !isNeighbor;
+        const matchedColumns = searchMatches?.get(node.id);
+
+        const shouldDim = selectedNodeId !== null
+          ? !isSelected && !isNeighbor
+          : searchMatches !== null && matchedColumns === undefined;
 
         // Avoid unnecessary object creation if state hasn't changed
-        if (node.data.selected === isSelected && node.data.dimmed === shouldDim) {
+        if (
+            node.data.selected === isSelected &&
+            node.data.dimmed === shouldDim &&
+            node.data.matchedColumns === matchedColumns &&
+            node.data.columnLabelMode === columnLabelMode
+        ) {
             return node;
         }
 
@@ -176,6 +464,8 @@ const ERDiagramContent: React.FC<ERDiagramProps> = ({ tables }) => {
             ...node.data,
             selected: isSelected,
             dimmed: shouldDim,
+            matchedColumns,
+            columnLabelMode,
           },
         };
       })
@@ -184,12 +474,17 @@ const ERDiagramContent: React.FC<ERDiagramProps> = ({ tables }) => {
     setEdges((eds) =>
       eds.map((edge) => {
         const isConnected = selectedNodeId && (edge.source === selectedNodeId || edge.target === selectedNodeId);
-        const shouldDim = selectedNodeId !== null && !isConnected;
+        const shouldDim = selectedNodeId !== null
+          ? !isConnected
+          : searchMatches !== null && !searchMatches.has(edge.source) && !searchMatches.has(edge.target);
 
-        const targetStroke = isConnected ? '#3b82f6' : '#cbd5e1';
-        const targetWidth = isConnected ? 3 : 1;
-        const targetOpacity = shouldDim ? 0.2 : 1;
-        const targetColor = isConnected ? '#3b82f6' : (shouldDim ? '#e2e8f0' : '#94a3b8');
+        const kind = (edge.data?.kind as EdgeKind) ?? 'inferred';
+        const base = EDGE_STYLES[kind];
+        const weight = edgeWeight(kind, edge.data?.confidence);
+        const targetStroke = isConnected ? '#3b82f6' : base.stroke;
+        const targetWidth = isConnected ? 3 : weight.strokeWidth;
+        const targetOpacity = shouldDim ? 0.2 : (isConnected ? 1 : weight.opacity);
+        const targetColor = isConnected ? '#3b82f6' : (shouldDim ? '#e2e8f0' : base.markerColor);
         const targetZIndex = isConnected ? 10 : 0;
 
         // Check equality to prevent needless updates (though React Flow handles this well, explicit checks are safer against loops)
@@ -198,7 +493,7 @@ const ERDiagramContent: React.FC<ERDiagramProps> = ({ tables }) => {
             edge.style?.stroke === targetStroke &&
             edge.style?.strokeWidth === targetWidth &&
             edge.style?.opacity === targetOpacity &&
-            edge.markerEnd?.['color'] === targetColor &&
+            (!edge.markerEnd || edge.markerEnd['color'] === targetColor) &&
             edge.zIndex === targetZIndex
         ) {
             return edge;
@@ -213,7 +508,8 @@ const ERDiagramContent: React.FC<ERDiagramProps> = ({ tables }) => {
             strokeWidth: targetWidth,
             opacity: targetOpacity,
           },
-          markerEnd: {
+          // Relationship edges draw their cardinality instead of an arrow
+          markerEnd: edge.markerEnd && {
             type: MarkerType.ArrowClosed,
             color: targetColor,
           },
@@ -221,42 +517,211 @@ const ERDiagramContent: React.FC<ERDiagramProps> = ({ tables }) => {
         };
       })
     );
-  }, [selectedNodeId, adjacency, setNodes, setEdges]);
+  }, [selectedNodeId, adjacency, searchMatches, columnLabelMode, tables, baseEdges, setNodes, setEdges]);
 
+  // Dragging from a column onto another table adds a hand-drawn relationship and opens it for
+  // editing. Dropped on the table rather than a column, it references the primary key.
   const onConnect = useCallback(
-    (params: Connection) => setEdges((eds) => addEdge({ 
-        ...params, 
-        animated: true, 
-        style: { stroke: '#3b82f6', strokeWidth: 2 },
-        markerEnd: { type: MarkerType.ArrowClosed }
-    }, eds)),
-    [setEdges]
+    (params: Connection) => {
+      const source = tables.find(t => t.id === params.source);
+      const target = tables.find(t => t.id === params.target);
+      const sourceColumn = handleColumn(params.sourceHandle);
+      const targetColumn = handleColumn(params.targetHandle)
+        ?? target?.columns.find(c => c.isPrimaryKey)?.name
+        ?? target?.columns[0]?.name;
+      if (!source || !target || !sourceColumn || !targetColumn) return;
+      const relationship: ManualRelationship = {
+        id: `manual-${Date.now().toString(36)}`,
+        sourceTable: source.id,
+        sourceColumns: [sourceColumn],
+        targetTable: target.id,
+        targetColumns: [targetColumn],
+        ...deriveCardinality(source, [sourceColumn]),
+        note: '',
+      };
+      onManualRelationshipsChange([...manualRelationships, relationship]);
+      setEditingId(relationship.id);
+    },
+    [tables, manualRelationships, onManualRelationshipsChange]
   );
 
+  const manualRelationshipOf = (edge: Edge) => manualRelationships.find(rel => `e-${rel.id}` === edge.id);
+
+  const onEdgeContextMenu = (event: MouseEvent, edge: Edge) => {
+    const relationship = manualRelationshipOf(edge);
+    if (!relationship) return;
+    event.preventDefault();
+    setEdgeMenu({ id: relationship.id, x: event.clientX, y: event.clientY });
+  };
+
+  const deleteManualRelationships = (ids: Set<string>) => {
+    onManualRelationshipsChange(manualRelationships.filter(rel => !ids.has(rel.id)));
+    setEdgeMenu(null);
+    setEditingId(null);
+  };
+
+  // Deleting a hand-drawn edge from the keyboard deletes the relationship too
+  const onEdgesDelete = (deleted: Edge[]) => {
+    const ids = new Set(deleted.flatMap(edge => manualRelationshipOf(edge)?.id ?? []));
+    if (ids.size > 0) deleteManualRelationships(ids);
+  };
+
+  const editing = editingId ? manualRelationships.find(rel => rel.id === editingId) : undefined;
+
   return (
     <div className="w-full h-full bg-slate-50">
       <ReactFlow
         nodes={nodes}
-        edges={edges}
+        edges={visibleEdges}
         onNodesChange={onNodesChange}
         onEdgesChange={onEdgesChange}
         onConnect={onConnect}
         onNodeClick={onNodeClick}
         onPaneClick={onPaneClick}
+        onEdgeClick={onEdgeClick}
+        onEdgeContextMenu={onEdgeContextMenu}
+        onEdgesDelete={onEdgesDelete}
         nodeTypes={nodeTypes}
+        edgeTypes={edgeTypes}
         fitView
         minZoom={0.1}
         maxZoom={1.5}
         className="bg-slate-50"
       >
         <Background gap={20} size={1} color="#cbd5e1" />
+        {schemaColors.size > 1 && (
+          <Panel position="top-left" className="bg-white border border-slate-200 rounded-lg shadow-sm p-2 text-xs">
+            <div className="font-semibold text-slate-500 mb-1 px-1">Schemas</div>
+            {[...schemaColors].map(([schema, color]) => (
+              <label key={schema} className="flex items-center gap-2 px-1 py-0.5 cursor-pointer text-slate-600 hover:text-slate-900">
+                <input
+                  type="checkbox"
+                  checked={!hiddenSchemas.has(schema)}
+                  onChange={() => toggleSchema(schema)}
+                  className="accent-blue-600"
+                />
+                <span className="w-2.5 h-2.5 rounded-sm shrink-0" style={{ backgroundColor: color }} />
+                {schema || <span className="italic text-slate-400">(no schema)</span>}
+                <span className="text-slate-400 ml-auto pl-2">{tables.filter(t => schemaOf(t) === schema).length}</span>
+              </label>
+            ))}
+          </Panel>
+        )}
+        <Panel position="top-center" className="flex items-center gap-2 bg-white border border-slate-200 rounded-lg shadow-sm px-2 py-1.5 text-xs">
+          <Search size={14} className="text-slate-400 shrink-0" />
+          <input
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder="Search names, labels, descriptions…"
+            className="w-56 focus:outline-none text-slate-700"
+          />
+          {searchMatches && <span className="text-slate-400 whitespace-nowrap">{searchMatches.size} tables</span>}
+          <select
+            value={columnLabelMode}
+            onChange={(e) => setColumnLabelMode(e.target.value as ColumnLabelMode)}
+            className="border-l border-slate-200 pl-2 text-slate-600 bg-transparent focus:outline-none"
+            title="What column rows show"
+          >
+            <option value={ColumnLabelMode.NAME}>Column names</option>
+            <option value={ColumnLabelMode.LABEL}>Short labels</option>
+            <option value={ColumnLabelMode.BOTH}>Names and labels</option>
+          </select>
+          <select
+            value={notation}
+            onChange={(e) => setNotation(e.target.value as RelationshipNotation)}
+            className="border-l border-slate-200 pl-2 text-slate-600 bg-transparent focus:outline-none"
+            title="How relationship ends show cardinality"
+          >
+            <option value={RelationshipNotation.CROWS_FOOT}>Crow's foot</option>
+            <option value={RelationshipNotation.IDEF1X}>IDEF1X</option>
+            <option value={RelationshipNotation.CHEN}>Chen</option>
+          </select>
+          {hasTriggerEdges && (
+            <label className="flex items-center gap-1 border-l border-slate-200 pl-2 text-slate-600 whitespace-nowrap cursor-pointer" title="Edges from a table to the tables its triggers write">
+              <input
+                type="checkbox"
+                checked={showTriggerEdges}
+                onChange={(e) => setShowTriggerEdges(e.target.checked)}
+                className="accent-rose-500"
+              />
+              Trigger writes
+            </label>
+          )}
+          {junctions.length > 0 && (
+            <label className="flex items-center gap-1 border-l border-slate-200 pl-2 text-slate-600 whitespace-nowrap cursor-pointer" title="Draw each link table as one N:M edge; click the edge to expand it">
+              <input
+                type="checkbox"
+                checked={collapseJunctions}
+                onChange={(e) => {
+                  setCollapseJunctions(e.target.checked);
+                  setExpandedJunctions(new Set());
+                }}
+                className="accent-teal-500"
+              />
+              Collapse link tables
+            </label>
+          )}
+          {hasInferredEdges && (
+            <label className="flex items-center gap-1 border-l border-slate-200 pl-2 text-slate-600 whitespace-nowrap" title="Hide inferred relationships scoring below this confidence">
+              <SlidersHorizontal size={14} className="text-slate-400 shrink-0" />
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={minConfidence}
+                onChange={(e) => setMinConfidence(Number(e.target.value))}
+                className="w-20 accent-blue-600"
+              />
+              <span className="w-8 text-right tabular-nums">{Math.round(minConfidence * 100)}%</span>
+            </label>
+          )}
+        </Panel>
+        {selectedTable && (
+          <Panel position="top-right">
+            <TableDetails table={selectedTable} routines={routines} onClose={() => setSelectedNodeId(null)} />
+          </Panel>
+        )}
         <Controls />
         <MiniMap 
-            nodeColor={(n) => n.data.selected ? '#3b82f6' : '#e2e8f0'}
+            nodeColor={(n) => n.data.selected ? '#3b82f6' : n.data.schemaColor ?? '#e2e8f0'}
             maskColor="rgba(241, 245, 249, 0.7)"
             className="border border-slate-200 rounded-lg shadow-sm bg-white"
         />
       </ReactFlow>
+      {edgeMenu && (
+        <div
+          className="fixed z-20 w-36 py-1 bg-white border border-slate-200 rounded-lg shadow-lg text-xs"
+          style={{ left: edgeMenu.x, top: edgeMenu.y }}
+        >
+          <button
+            onClick={() => {
+              setEditingId(edgeMenu.id);
+              setEdgeMenu(null);
+            }}
+            className="flex w-full items-center gap-2 px-3 py-1.5 text-slate-700 hover:bg-slate-50"
+          >
+            <Pencil size={12} />
+            Edit…
+          </button>
+          <button
+            onClick={() => deleteManualRelationships(new Set([edgeMenu.id]))}
+            className="flex w-full items-center gap-2 px-3 py-1.5 text-red-600 hover:bg-red-50"
+          >
+            <Trash2 size={12} />
+            Delete
+          </button>
+        </div>
+      )}
+      {editing && (
+        <RelationshipDialog
+          relationship={editing}
+          tables={tables}
+          onChange={(relationship) => onManualRelationshipsChange(manualRelationships.map(rel => (rel.id === relationship.id ? relationship : rel)))}
+          onDelete={() => deleteManualRelationships(new Set([editing.id]))}
+          onClose={() => setEditingId(null)}
+        />
+      )}
     </div>
   );
 };
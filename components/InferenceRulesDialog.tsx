@@ -0,0 +1,131 @@
+import React from 'react';
+import { Plus, Trash2, X } from 'lucide-react';
+import { InferenceRules, OwnerRule } from '../types';
+import { DEFAULT_INFERENCE_RULES } from '../services/relationshipInference';
+
+interface InferenceRulesDialogProps {
+  rules: InferenceRules;
+  onChange: (rules: InferenceRules) => void;
+  onClose: () => void;
+}
+
+type ListKey = 'ignoredColumns' | 'keyPatterns' | 'stripPrefixes' | 'stripSuffixes';
+
+const LIST_FIELDS: { key: ListKey; title: string; hint: string }[] = [
+  { key: 'ignoredColumns', title: 'Ignored columns', hint: 'Never reference another table, e.g. CREATE_USER_ID or *_DATE' },
+  { key: 'keyPatterns', title: 'Key columns', hint: 'When set, only matching columns can reference another table, e.g. *_NO' },
+  { key: 'stripPrefixes', title: 'Strip prefixes', hint: 'PARENT_ matches PARENT_CLIENT_NO with CLIENT_NO' },
+  { key: 'stripSuffixes', title: 'Strip suffixes', hint: '_OLD matches CLIENT_NO_OLD with CLIENT_NO' },
+];
+
+const Field = ({ title, hint, children }: { title: string; hint: string; children: React.ReactNode }) => (
+  <div>
+    <div className="text-xs font-semibold text-slate-600">{title}</div>
+    <div className="text-[11px] text-slate-400 mb-1">{hint}</div>
+    {children}
+  </div>
+);
+
+// Editor for the rules that turn column names into inferred relationships; changes apply immediately
+const InferenceRulesDialog = ({ rules, onChange, onClose }: InferenceRulesDialogProps) => {
+  const update = (changes: Partial<InferenceRules>) => onChange({ ...rules, ...changes });
+  const updateOwner = (index: number, changes: Partial<OwnerRule>) =>
+    update({ preferredOwners: rules.preferredOwners.map((owner, i) => (i === index ? { ...owner, ...changes } : owner)) });
+
+  return (
+    <div className="fixed inset-0 z-30 flex items-center justify-center bg-slate-900/20" onClick={onClose}>
+      <div
+        className="w-[40rem] max-h-[calc(100vh-4rem)] flex flex-col bg-white border border-slate-200 rounded-xl shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-5 py-3 border-b border-slate-100">
+          <div>
+            <h2 className="font-semibold text-slate-800">Relationship inference rules</h2>
+            <p className="text-xs text-slate-500">Used where the DDL declares no foreign key. One pattern per line; * and ? are wildcards.</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-4 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            {LIST_FIELDS.map(({ key, title, hint }) => (
+              <div key={key}>
+                <Field title={title} hint={hint}>
+                  <textarea
+                    value={rules[key].join('\n')}
+                    onChange={(e) => update({ [key]: e.target.value.split('\n') })}
+                    rows={key === 'ignoredColumns' ? 8 : 4}
+                    spellCheck={false}
+                    className="w-full px-2 py-1 font-mono text-xs border border-slate-200 rounded resize-y focus:outline-none focus:border-blue-400"
+                  />
+                </Field>
+              </div>
+            ))}
+          </div>
+
+          <Field title="Preferred owners" hint="The table a key column points at when several tables have it as their primary key">
+            <div className="space-y-1">
+              {rules.preferredOwners.map((owner, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <input
+                    value={owner.column}
+                    onChange={(e) => updateOwner(index, { column: e.target.value })}
+                    placeholder="CLIENT_NO"
+                    className="flex-1 px-2 py-1 font-mono text-xs border border-slate-200 rounded focus:outline-none focus:border-blue-400"
+                  />
+                  <span className="text-slate-400 text-xs">→</span>
+                  <input
+                    value={owner.table}
+                    onChange={(e) => updateOwner(index, { table: e.target.value })}
+                    placeholder="cif_client"
+                    className="flex-1 px-2 py-1 font-mono text-xs border border-slate-200 rounded focus:outline-none focus:border-blue-400"
+                  />
+                  <button
+                    onClick={() => update({ preferredOwners: rules.preferredOwners.filter((_, i) => i !== index) })}
+                    className="text-slate-400 hover:text-red-600"
+                    title="Remove"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => update({ preferredOwners: [...rules.preferredOwners, { column: '', table: '' }] })}
+                className="flex items-center gap-1 text-xs font-medium text-blue-600 hover:text-blue-700"
+              >
+                <Plus size={14} />
+                Add owner
+              </button>
+            </div>
+          </Field>
+
+          <label className="flex items-start gap-2 text-xs text-slate-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={rules.idNaming}
+              onChange={(e) => update({ idNaming: e.target.checked })}
+              className="mt-0.5 accent-blue-600"
+            />
+            <span>
+              <span className="font-semibold">ID-style naming</span>
+              <span className="block text-[11px] text-slate-400">client_id and clientId reference the id column of table client or clients</span>
+            </span>
+          </label>
+        </div>
+
+        <div className="flex justify-between px-5 py-3 border-t border-slate-100">
+          <button onClick={() => onChange(DEFAULT_INFERENCE_RULES)} className="text-sm text-slate-500 hover:text-slate-800">
+            Reset to defaults
+          </button>
+          <button onClick={onClose} className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-1.5 rounded-lg text-sm font-medium transition-colors">
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InferenceRulesDialog;
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { AlertCircle, AlertTriangle, Columns2, Info } from 'lucide-react';
+import { DefinitionVersion, Diagnostic, DiagnosticSeverity } from '../types';
+
+interface ProblemsPanelProps {
+  diagnostics: Diagnostic[];
+  onSelect: (diagnostic: Diagnostic) => void;
+  // Set when the diagnostics can't be shown in the editor, e.g. because the SQL changed since the parse
+  unavailableReason?: string;
+}
+
+const SEVERITY_STYLES: Record<DiagnosticSeverity, { icon: typeof AlertCircle; color: string; label: string }> = {
+  [DiagnosticSeverity.ERROR]: { icon: AlertCircle, color: 'text-red-500', label: 'errors' },
+  [DiagnosticSeverity.WARNING]: { icon: AlertTriangle, color: 'text-amber-500', label: 'warnings' },
+  [DiagnosticSeverity.INFO]: { icon: Info, color: 'text-sky-500', label: 'skipped' },
+};
+
+// One side of a duplicate definition; lines missing from the other side are highlighted
+const renderVersion = (title: string, version: DefinitionVersion, other: DefinitionVersion) => {
+  const otherLines = new Set(other.text.split(/\r?\n/).map(line => line.trim()));
+  return (
+    <div className="min-w-0">
+      <div className="text-[10px] font-semibold uppercase tracking-wide text-slate-400 mb-1">
+        {title} · line {version.line}
+      </div>
+      <pre className="font-mono text-[11px] leading-4 bg-slate-50 border border-slate-100 rounded p-2 overflow-x-auto">
+        {version.text.split(/\r?\n/).map((line, index) => (
+          <div key={index} className={otherLines.has(line.trim()) ? 'text-slate-500' : 'bg-amber-100 text-slate-800'}>
+            {line || ' '}
+          </div>
+        ))}
+      </pre>
+    </div>
+  );
+};
+
+const ProblemsPanel = ({ diagnostics, onSelect, unavailableReason }: ProblemsPanelProps) => {
+  const [comparing, setComparing] = useState<Diagnostic | null>(null);
+  if (diagnostics.length === 0) return null;
+
+  const counts = Object.values(DiagnosticSeverity)
+    .map(severity => ({ severity, count: diagnostics.filter(d => d.severity === severity).length }))
+    .filter(entry => entry.count > 0);
+
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 text-sm shadow-sm overflow-hidden">
+      <div className="flex items-center gap-4 px-4 py-2 border-b border-slate-100 bg-slate-50/50">
+        <span className="font-semibold text-slate-700">Problems</span>
+        {counts.map(({ severity, count }) => {
+          const { icon: Icon, color, label } = SEVERITY_STYLES[severity];
+          return (
+            <span key={severity} className={`flex items-center gap-1 text-xs font-medium ${color}`}>
+              <Icon size={14} />
+              {count} {label}
+            </span>
+          );
+        })}
+        {unavailableReason && (
+          <span className="ml-auto text-xs text-slate-400 truncate" title={unavailableReason}>{unavailableReason}</span>
+        )}
+      </div>
+      <div className="max-h-48 overflow-y-auto divide-y divide-slate-50">
+        {diagnostics.map((diagnostic, index) => {
+          const { icon: Icon, color } = SEVERITY_STYLES[diagnostic.severity];
+          const versions = diagnostic.versions;
+          return (
+            <div key={index}>
+              <div className="flex items-start hover:bg-blue-50/50 transition-colors">
+                <button
+                  onClick={() => onSelect(diagnostic)}
+                  disabled={unavailableReason !== undefined}
+                  className="flex-1 min-w-0 flex items-start gap-2 px-4 py-1.5 text-left disabled:cursor-default"
+                  title={unavailableReason ?? 'Show in editor'}
+                >
+                  <Icon size={14} className={`mt-0.5 shrink-0 ${color}`} />
+                  <span className="font-mono text-xs text-slate-400 shrink-0 w-16">{diagnostic.line}:{diagnostic.column}</span>
+                  <span className="flex flex-col min-w-0">
+                    <span className="text-slate-700">{diagnostic.message}</span>
+                    {diagnostic.snippet && (
+                      <span className="font-mono text-xs text-slate-400 truncate">{diagnostic.snippet}</span>
+                    )}
+                  </span>
+                </button>
+                {versions && (
+                  <button
+                    onClick={() => setComparing(comparing === diagnostic ? null : diagnostic)}
+                    className={`flex items-center gap-1 shrink-0 px-3 py-1.5 text-xs font-medium ${comparing === diagnostic ? 'text-blue-600' : 'text-slate-400 hover:text-slate-700'}`}
+                    title="Show both definitions side by side"
+                  >
+                    <Columns2 size={14} />
+                    Compare
+                  </button>
+                )}
+              </div>
+              {versions && comparing === diagnostic && (
+                <div className="grid grid-cols-2 gap-3 px-4 pb-3">
+                  {renderVersion('Replaced', versions.previous, versions.current)}
+                  {renderVersion('Kept', versions.current, versions.previous)}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ProblemsPanel;
@@ -0,0 +1,166 @@
+import React from 'react';
+import { Plus, Trash2, X } from 'lucide-react';
+import { Cardinality, ManualRelationship, TableDefinition } from '../types';
+
+interface RelationshipDialogProps {
+  relationship: ManualRelationship;
+  tables: TableDefinition[];
+  onChange: (relationship: ManualRelationship) => void;
+  onDelete: () => void;
+  onClose: () => void;
+}
+
+const CARDINALITY_LABELS: Record<Cardinality, string> = {
+  [Cardinality.ONE_TO_ONE]: 'One to one (1:1)',
+  [Cardinality.ONE_TO_MANY]: 'One to many (1:N)',
+  [Cardinality.MANY_TO_MANY]: 'Many to many (N:M)',
+};
+
+const sameName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+const inputClass = 'w-full px-2 py-1 text-xs border border-slate-200 rounded focus:outline-none focus:border-blue-400';
+
+// Editor for a relationship drawn on the diagram; changes apply immediately
+const RelationshipDialog = ({ relationship, tables, onChange, onDelete, onClose }: RelationshipDialogProps) => {
+  const source = tables.find(t => sameName(t.id, relationship.sourceTable));
+  const target = tables.find(t => sameName(t.id, relationship.targetTable));
+  const update = (changes: Partial<ManualRelationship>) => onChange({ ...relationship, ...changes });
+  const updateColumn = (side: 'sourceColumns' | 'targetColumns', index: number, name: string) =>
+    update({ [side]: relationship[side].map((column, i) => (i === index ? name : column)) });
+  const removePair = (index: number) =>
+    update({
+      sourceColumns: relationship.sourceColumns.filter((_, i) => i !== index),
+      targetColumns: relationship.targetColumns.filter((_, i) => i !== index),
+    });
+
+  const columnSelect = (table: TableDefinition | undefined, side: 'sourceColumns' | 'targetColumns', index: number) => {
+    const saved = relationship[side][index];
+    // The saved name may differ in case from the current schema
+    const current = table?.columns.find(c => sameName(c.name, saved))?.name;
+    return (
+      <select
+        value={current ?? saved}
+        onChange={(e) => updateColumn(side, index, e.target.value)}
+        className={`flex-1 font-mono bg-white ${inputClass}`}
+      >
+        {/* Keeps a column the current schema no longer has */}
+        {!current && <option value={saved}>{saved} (missing)</option>}
+        {table?.columns.map(c => (
+          <option key={c.name} value={c.name}>{c.name}</option>
+        ))}
+      </select>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 flex items-center justify-center bg-slate-900/20" onClick={onClose}>
+      <div
+        className="w-[32rem] max-h-[calc(100vh-4rem)] flex flex-col bg-white border border-slate-200 rounded-xl shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-5 py-3 border-b border-slate-100">
+          <div>
+            <h2 className="font-semibold text-slate-800">Relationship</h2>
+            <p className="text-xs text-slate-500 font-mono">
+              {source?.name ?? relationship.sourceTable} → {target?.name ?? relationship.targetTable}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-4 space-y-4 text-xs">
+          <label className="block">
+            <span className="font-semibold text-slate-600">Name</span>
+            <input
+              value={relationship.name ?? ''}
+              onChange={(e) => update({ name: e.target.value || undefined })}
+              placeholder="Shown on the edge"
+              className={`mt-1 ${inputClass}`}
+            />
+          </label>
+
+          <div>
+            <div className="font-semibold text-slate-600 mb-1">Columns</div>
+            <div className="space-y-1">
+              {relationship.sourceColumns.map((_, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  {columnSelect(source, 'sourceColumns', index)}
+                  <span className="text-slate-400">→</span>
+                  {columnSelect(target, 'targetColumns', index)}
+                  <button
+                    onClick={() => removePair(index)}
+                    disabled={relationship.sourceColumns.length === 1}
+                    className="text-slate-400 hover:text-red-600 disabled:opacity-30 disabled:hover:text-slate-400"
+                    title="Remove"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+              {source && target && (
+                <button
+                  onClick={() => update({
+                    sourceColumns: [...relationship.sourceColumns, source.columns[0]?.name ?? ''],
+                    targetColumns: [...relationship.targetColumns, target.columns[0]?.name ?? ''],
+                  })}
+                  className="flex items-center gap-1 font-medium text-blue-600 hover:text-blue-700"
+                >
+                  <Plus size={14} />
+                  Add column pair
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div className="flex items-end gap-4">
+            <label className="flex-1 block">
+              <span className="font-semibold text-slate-600">Cardinality</span>
+              <select
+                value={relationship.cardinality}
+                onChange={(e) => update({ cardinality: e.target.value as Cardinality })}
+                className={`mt-1 bg-white ${inputClass}`}
+              >
+                {Object.values(Cardinality).map(cardinality => (
+                  <option key={cardinality} value={cardinality}>{CARDINALITY_LABELS[cardinality]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 pb-1 text-slate-600 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={relationship.optional}
+                onChange={(e) => update({ optional: e.target.checked })}
+                className="accent-blue-600"
+              />
+              Optional
+            </label>
+          </div>
+
+          <label className="block">
+            <span className="font-semibold text-slate-600">Note</span>
+            <textarea
+              value={relationship.note}
+              onChange={(e) => update({ note: e.target.value })}
+              rows={3}
+              className={`mt-1 resize-y ${inputClass}`}
+            />
+          </label>
+        </div>
+
+        <div className="flex justify-between px-5 py-3 border-t border-slate-100">
+          <button onClick={onDelete} className="flex items-center gap-1 text-sm text-red-600 hover:text-red-700">
+            <Trash2 size={14} />
+            Delete
+          </button>
+          <button onClick={onClose} className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-1.5 rounded-lg text-sm font-medium transition-colors">
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RelationshipDialog;
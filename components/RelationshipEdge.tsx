@@ -0,0 +1,147 @@
+import React from 'react';
+import { BaseEdge, EdgeProps, getSmoothStepPath, Position } from 'reactflow';
+import { Cardinality, RelationshipNotation } from '../types';
+
+export interface RelationshipEdgeData {
+  kind: string;
+  confidence?: number;
+  cardinality: Cardinality;
+  optional: boolean;
+  notation: RelationshipNotation;
+}
+
+interface EndPoint {
+  x: number;
+  y: number;
+  // Side of the table the edge leaves from; glyphs are drawn outwards from it
+  position: Position;
+}
+
+// How many rows an end of the edge stands for
+type Multiplicity = 'one' | 'zeroOrOne' | 'zeroOrMany';
+
+const CROW_LENGTH = 14;
+const CROW_SPREAD = 7;
+
+const direction = (position: Position) => (position === Position.Left ? -1 : 1);
+
+const bar = (end: EndPoint, offset: number, color: string) => {
+  const x = end.x + direction(end.position) * offset;
+  return <line x1={x} y1={end.y - CROW_SPREAD} x2={x} y2={end.y + CROW_SPREAD} stroke={color} strokeWidth={1.5} />;
+};
+
+const circle = (end: EndPoint, offset: number, color: string, fill = '#fff') => (
+  <circle cx={end.x + direction(end.position) * offset} cy={end.y} r={4} stroke={color} strokeWidth={1.5} fill={fill} />
+);
+
+// Crow's foot: the nearer glyph is the maximum (bar or crow), the farther one the minimum (bar or circle)
+const crowsFoot = (end: EndPoint, multiplicity: Multiplicity, color: string) => {
+  if (multiplicity === 'one') return <>{bar(end, 8, color)}{bar(end, 14, color)}</>;
+  if (multiplicity === 'zeroOrOne') return <>{bar(end, 8, color)}{circle(end, 18, color)}</>;
+  const tip = end.x + direction(end.position) * CROW_LENGTH;
+  return (
+    <>
+      <path d={`M ${tip},${end.y} L ${end.x},${end.y - CROW_SPREAD} M ${tip},${end.y} L ${end.x},${end.y + CROW_SPREAD}`} stroke={color} strokeWidth={1.5} fill="none" />
+      {circle(end, CROW_LENGTH + 5, color)}
+    </>
+  );
+};
+
+const label = (end: EndPoint, offset: number, text: string, color: string) => (
+  <text
+    x={end.x + direction(end.position) * offset}
+    y={end.y - 5}
+    fill={color}
+    fontSize={10}
+    fontWeight={600}
+    textAnchor="middle"
+  >
+    {text}
+  </text>
+);
+
+// IDEF1X: a dot on the child end (Z for at most one), a hollow diamond on the parent end of an optional relationship
+const idef1x = (end: EndPoint, multiplicity: Multiplicity, isParent: boolean, color: string) => {
+  if (isParent) {
+    if (multiplicity === 'one') return null;
+    const x = end.x + direction(end.position) * 7;
+    return <path d={`M ${x - 5},${end.y} L ${x},${end.y - 5} L ${x + 5},${end.y} L ${x},${end.y + 5} Z`} stroke={color} strokeWidth={1.5} fill="#fff" />;
+  }
+  return (
+    <>
+      {circle(end, 4, color, color)}
+      {multiplicity === 'zeroOrOne' && label(end, 14, 'Z', color)}
+    </>
+  );
+};
+
+interface RelationshipEndsProps {
+  source: EndPoint;
+  target: EndPoint;
+  // Middle of the edge, where Chen notation puts its relationship diamond
+  labelX: number;
+  labelY: number;
+  data?: RelationshipEdgeData;
+  color: string;
+}
+
+// Cardinality glyphs at both ends of a relationship edge; the target is the referenced table
+export const RelationshipEnds = ({ source, target, labelX, labelY, data, color }: RelationshipEndsProps) => {
+  if (!data) return null;
+  const manyToMany = data.cardinality === Cardinality.MANY_TO_MANY;
+  const sourceEnd: Multiplicity = data.cardinality === Cardinality.ONE_TO_ONE ? 'zeroOrOne' : 'zeroOrMany';
+  const targetEnd: Multiplicity = manyToMany ? 'zeroOrMany' : data.optional ? 'zeroOrOne' : 'one';
+
+  if (data.notation === RelationshipNotation.CHEN) {
+    return (
+      <g>
+        <path
+          d={`M ${labelX - 10},${labelY} L ${labelX},${labelY - 7} L ${labelX + 10},${labelY} L ${labelX},${labelY + 7} Z`}
+          stroke={color}
+          strokeWidth={1.5}
+          fill="#fff"
+        />
+        {label(source, 10, sourceEnd === 'zeroOrMany' ? 'N' : '1', color)}
+        {label(target, 10, manyToMany ? 'M' : '1', color)}
+      </g>
+    );
+  }
+  if (data.notation === RelationshipNotation.IDEF1X) {
+    return <g>{idef1x(source, sourceEnd, false, color)}{idef1x(target, targetEnd, !manyToMany, color)}</g>;
+  }
+  return <g>{crowsFoot(source, sourceEnd, color)}{crowsFoot(target, targetEnd, color)}</g>;
+};
+
+// A relationship between two columns, with its cardinality drawn at the ends in the chosen notation
+const RelationshipEdge = ({
+  id,
+  sourceX,
+  sourceY,
+  targetX,
+  targetY,
+  sourcePosition,
+  targetPosition,
+  data,
+  style,
+  label: name,
+}: EdgeProps<RelationshipEdgeData>) => {
+  const [path, labelX, labelY] = getSmoothStepPath({ sourceX, sourceY, sourcePosition, targetX, targetY, targetPosition });
+
+  return (
+    <>
+      <BaseEdge id={id} path={path} style={style} label={name} labelX={labelX} labelY={labelY} />
+      <g style={{ opacity: style?.opacity }}>
+        <RelationshipEnds
+          source={{ x: sourceX, y: sourceY, position: sourcePosition }}
+          target={{ x: targetX, y: targetY, position: targetPosition }}
+          labelX={labelX}
+          labelY={labelY}
+          data={data}
+          color={(style?.stroke as string) ?? '#64748b'}
+        />
+      </g>
+    </>
+  );
+};
+
+export default RelationshipEdge;
@@ -0,0 +1,138 @@
+import React from 'react';
+import { X, Layers } from 'lucide-react';
+import { PartitionKeyDefinition, RoutineDefinition, RoutineKind, TableDefinition, TableKind, TableOptions } from '../types';
+
+interface TableDetailsProps {
+  table: TableDefinition;
+  routines: RoutineDefinition[];
+  onClose: () => void;
+}
+
+const ROUTINE_LABELS: Record<RoutineKind, string> = {
+  [RoutineKind.TRIGGER]: 'trigger',
+  [RoutineKind.PROCEDURE]: 'procedure',
+  [RoutineKind.FUNCTION]: 'function',
+};
+
+const OPTION_LABELS: [keyof Omit<TableOptions, 'other'>, string][] = [
+  ['engine', 'Engine'],
+  ['charset', 'Charset'],
+  ['collation', 'Collation'],
+  ['rowFormat', 'Row format'],
+  ['autoIncrement', 'Auto increment'],
+];
+
+const describeKey = (key: PartitionKeyDefinition) =>
+  `${key.method} (${key.expression})${key.count !== undefined ? ` × ${key.count}` : ''}`;
+
+const Section = ({ title, children }: { title: string; children: React.ReactNode }) => (
+  <div className="px-4 py-3 border-t border-slate-100">
+    <div className="text-[10px] font-semibold uppercase tracking-wide text-slate-400 mb-1.5">{title}</div>
+    {children}
+  </div>
+);
+
+const renderRow = (label: string, value: string) => (
+  <div key={label} className="flex justify-between gap-3 py-0.5">
+    <span className="text-slate-500 shrink-0">{label}</span>
+    <span className="font-mono text-slate-700 truncate text-right" title={value}>{value}</span>
+  </div>
+);
+
+const renderRoutine = (routine: RoutineDefinition) => (
+  <div key={`${routine.kind}-${routine.id}`} className="flex justify-between gap-3 py-0.5">
+    <span className="font-mono text-slate-700 truncate" title={routine.id}>{routine.name}</span>
+    <span className="text-slate-400 shrink-0">{ROUTINE_LABELS[routine.kind]}</span>
+  </div>
+);
+
+// Side panel with the table-level metadata that does not fit on the node itself
+const TableDetails = ({ table, routines, onClose }: TableDetailsProps) => {
+  const { options, partitioning } = table;
+  const knownOptions = OPTION_LABELS.filter(([key]) => options[key] !== undefined);
+  const otherOptions = Object.entries(options.other);
+  const triggers = routines.filter(r => r.kind === RoutineKind.TRIGGER && r.table === table.id);
+  const writers = routines.filter(r => r.writes.includes(table.id));
+  const readers = routines.filter(r => r.reads.includes(table.id) && !r.writes.includes(table.id));
+
+  return (
+    <div className="nowheel w-80 max-h-[calc(100vh-8rem)] overflow-y-auto bg-white border border-slate-200 rounded-lg shadow-lg text-xs">
+      <div className="flex items-start justify-between gap-2 px-4 py-3">
+        <div className="min-w-0">
+          {table.schema && <div className="text-[10px] font-semibold uppercase tracking-wide text-slate-400 truncate">{table.schema}</div>}
+          <div className="font-bold text-sm text-slate-800 truncate" title={table.name}>{table.name}</div>
+          <div className="text-slate-400">
+            {table.kind === TableKind.VIEW ? 'View' : 'Table'} · {table.columns.length} columns · {table.indexes.length} indexes
+          </div>
+          {table.label && <div className="text-slate-600 font-medium mt-1">{table.label}</div>}
+          {table.description && table.description !== table.label && <div className="text-slate-500">{table.description}</div>}
+        </div>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-700 shrink-0" title="Close">
+          <X size={16} />
+        </button>
+      </div>
+
+      {(knownOptions.length > 0 || otherOptions.length > 0) && (
+        <Section title="Options">
+          {knownOptions.map(([key, label]) => renderRow(label, String(options[key])))}
+          {otherOptions.map(([name, value]) => renderRow(name, value || '—'))}
+        </Section>
+      )}
+
+      {table.checks.length > 0 && (
+        <Section title="Check constraints">
+          {table.checks.map((check, index) => (
+            <div key={index} className="py-0.5">
+              {check.name && <div className="text-slate-500">{check.name}</div>}
+              <div className="font-mono text-slate-700 break-words">{check.expression}</div>
+            </div>
+          ))}
+        </Section>
+      )}
+
+      {triggers.length > 0 && (
+        <Section title="Triggers">
+          {triggers.map(trigger => (
+            <div key={trigger.id} className="py-0.5">
+              <div className="flex justify-between gap-3">
+                <span className="font-mono text-slate-700 truncate" title={trigger.id}>{trigger.name}</span>
+                {trigger.event && <span className="text-slate-400 truncate text-right" title={trigger.event}>{trigger.event}</span>}
+              </div>
+              {trigger.writes.length > 0 && (
+                <div className="text-slate-500 truncate" title={trigger.writes.join(', ')}>writes {trigger.writes.join(', ')}</div>
+              )}
+            </div>
+          ))}
+        </Section>
+      )}
+
+      {writers.length > 0 && <Section title="Written by">{writers.map(renderRoutine)}</Section>}
+      {readers.length > 0 && <Section title="Read by">{readers.map(renderRoutine)}</Section>}
+
+      {partitioning && (
+        <Section title="Partitioning">
+          <div className="flex items-center gap-1.5 font-mono text-slate-700 mb-1">
+            <Layers size={12} className="text-slate-400 shrink-0" />
+            <span className="truncate" title={describeKey(partitioning)}>{describeKey(partitioning)}</span>
+          </div>
+          {partitioning.columns.length > 0 && renderRow('Key columns', partitioning.columns.join(', '))}
+          {partitioning.interval && renderRow('Interval', partitioning.interval)}
+          {partitioning.subpartitioning && renderRow('Subpartitions', describeKey(partitioning.subpartitioning))}
+          {partitioning.partitions.length > 0 && (
+            <div className="mt-2 space-y-0.5">
+              <div className="text-slate-500">{partitioning.partitions.length} partitions</div>
+              {partitioning.partitions.map(partition => (
+                <div key={partition.name} className="flex justify-between gap-3 pl-2 border-l-2 border-slate-100">
+                  <span className="font-medium text-slate-600 shrink-0">{partition.name}</span>
+                  <span className="font-mono text-slate-400 truncate text-right" title={partition.bound}>{partition.bound}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </Section>
+      )}
+    </div>
+  );
+};
+
+export default TableDetails;
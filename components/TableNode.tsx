@@ -1,19 +1,98 @@
-import React, { memo } from 'react';
+import React, { memo, useMemo, useState } from 'react';
 import { Handle, Position } from 'reactflow';
-import { Key, Columns as ColumnsIcon } from 'lucide-react';
-import { ColumnDefinition } from '../types';
+import { Key, Columns as ColumnsIcon, Eye, Layers, ChevronDown, ChevronRight } from 'lucide-react';
+import { ColumnDefinition, ColumnLabelMode, IndexDefinition, PartitioningDefinition, SampleData, TableKind } from '../types';
 
 interface TableNodeProps {
   data: {
     label: string;
+    kind: TableKind;
+    partitioning?: PartitioningDefinition;
+    schema?: string;
+    // Set when several schemas are shown at once
+    schemaColor?: string;
+    // Short label of the table comment, with the full description in a tooltip
     comment: string;
+    description?: string;
     columns: ColumnDefinition[];
+    indexes: IndexDefinition[];
+    sampleData?: SampleData;
+    columnLabelMode?: ColumnLabelMode;
+    // Columns matching the diagram search
+    matchedColumns?: string[];
     selected?: boolean;
     dimmed?: boolean;
   };
 }
 
+// Multi-line tooltip with the full column definition
+const describeColumn = (col: ColumnDefinition) => {
+  const typeParts = [col.type, col.isUnsigned && 'UNSIGNED', col.isZerofill && 'ZEROFILL'].filter(Boolean);
+  const lines = [`${col.name} ${typeParts.join(' ')}`];
+  lines.push(col.isNullable ? 'NULL' : 'NOT NULL');
+  if (col.isAutoIncrement) lines.push('AUTO_INCREMENT');
+  if (col.defaultValue !== undefined) lines.push(`DEFAULT ${col.defaultValue}`);
+  if (col.onUpdate) lines.push(`ON UPDATE ${col.onUpdate}`);
+  if (col.charset) lines.push(`CHARACTER SET ${col.charset}`);
+  if (col.collation) lines.push(`COLLATE ${col.collation}`);
+  if (col.generated) lines.push(`GENERATED ALWAYS AS (${col.expression}) ${col.generated}`);
+  else if (col.expression) lines.push(`AS ${col.expression}`);
+  if (col.allowedValues) lines.push(`Allowed: ${col.allowedValues.join(', ')}`);
+  col.checks?.forEach(check => lines.push(`${check.name ? `CONSTRAINT ${check.name} ` : ''}CHECK (${check.expression})`));
+  if (col.label) lines.push(col.label === col.description ? col.label : `${col.label}: ${col.description}`);
+  return lines.join('\n');
+};
+
 const TableNode = ({ data }: TableNodeProps) => {
+  const [showIndexes, setShowIndexes] = useState(false);
+  const [tab, setTab] = useState<'columns' | 'data'>('columns');
+  const isView = data.kind === TableKind.VIEW;
+  const sampleRows = data.sampleData?.rows ?? [];
+  const showData = tab === 'data' && sampleRows.length > 0;
+  const labelMode = data.columnLabelMode ?? ColumnLabelMode.BOTH;
+  // Falls back to the name for columns without a comment
+  const columnTitle = (col: ColumnDefinition) => (labelMode === ColumnLabelMode.LABEL && col.label ? col.label : col.name);
+
+  // Lower-cased names of the columns covered by any index / by a unique index, since an index
+  // may spell its columns differently from their definitions
+  const { indexedColumns, uniqueColumns } = useMemo(() => {
+    const indexed = new Set<string>();
+    const unique = new Set<string>();
+    data.indexes.forEach(idx => {
+      idx.columns.forEach(col => indexed.add(col.toLowerCase()));
+      // Only a single-column unique index makes the column itself unique
+      if (idx.isUnique && idx.columns.length === 1) unique.add(idx.columns[0].toLowerCase());
+    });
+    return { indexedColumns: indexed, uniqueColumns: unique };
+  }, [data.indexes]);
+
+  // Left handle for incoming connections, right handle for outgoing ones
+  const renderTargetHandle = (column: string) => (
+    <Handle
+      type="target"
+      position={Position.Left}
+      id={`${column}-target`}
+      className={`!w-2 !h-2 !bg-slate-300 !-left-1 ${data.dimmed ? '!opacity-0' : ''}`}
+    />
+  );
+  const renderSourceHandle = (column: string) => (
+    <Handle
+      type="source"
+      position={Position.Right}
+      id={`${column}-source`}
+      className={`!w-2 !h-2 !bg-slate-300 !-right-1 ${data.dimmed ? '!opacity-0' : ''}`}
+    />
+  );
+
+  const renderTab = (value: 'columns' | 'data', label: string) => (
+    <button
+      onClick={() => setTab(value)}
+      className={`flex-1 px-3 py-1 transition-colors ${tab === value ? 'text-blue-600 border-b-2 border-blue-500' : 'text-slate-400 hover:text-slate-600'}`}
+    >
+      {label}
+    </button>
+  );
+
   return (
     <div className={`
       bg-white rounded-lg shadow-lg border-2 min-w-[280px] overflow-hidden transition-all duration-300
@@ -21,67 +100,178 @@ const TableNode = ({ data }: TableNodeProps) => {
       ${data.dimmed ? 'opacity-40 grayscale-[0.8] border-slate-100 shadow-sm scale-95' : 'opacity-100'}
     `}>
       {/* Header */}
-      <div className={`
-        border-b p-3 transition-colors
-        ${data.selected ? 'bg-blue-50 border-blue-200' : 'bg-slate-50 border-slate-100'}
-      `}>
-        <div className={`font-bold text-sm flex items-center gap-2 ${data.selected ? 'text-blue-700' : 'text-slate-800'}`}>
-          <ColumnsIcon size={16} className={data.selected ? 'text-blue-600' : 'text-slate-400'} />
+      <div
+        className={`
+          relative border-b p-3 transition-colors
+          ${data.selected ? 'bg-blue-50 border-blue-200' : isView ? 'bg-violet-50 border-violet-100' : 'bg-slate-50 border-slate-100'}
+        `}
+        style={data.schemaColor ? { borderTop: `4px solid ${data.schemaColor}` } : undefined}
+      >
+        {data.schemaColor && data.schema && (
+          <div className="text-[10px] font-semibold uppercase tracking-wide truncate mb-0.5" style={{ color: data.schemaColor }} title={data.schema}>
+            {data.schema}
+          </div>
+        )}
+        {/* Table-level handles for view lineage edges */}
+        <Handle type="target" position={Position.Left} id="table-target" className="!w-2 !h-2 !bg-violet-300 !-left-1 !opacity-0" />
+        <Handle type="source" position={Position.Right} id="table-source" className="!w-2 !h-2 !bg-violet-300 !-right-1 !opacity-0" />
+        <div className={`font-bold text-sm flex items-center gap-2 ${data.selected ? 'text-blue-700' : isView ? 'text-violet-800' : 'text-slate-800'}`}>
+          {isView
+            ? <Eye size={16} className={data.selected ? 'text-blue-600' : 'text-violet-500'} />
+            : <ColumnsIcon size={16} className={data.selected ? 'text-blue-600' : 'text-slate-400'} />}
           <span className="truncate" title={data.label}>{data.label}</span>
+          {isView && (
+            <span className="ml-auto px-1 rounded bg-violet-100 text-violet-600 text-[9px] font-semibold tracking-wide">VIEW</span>
+          )}
+          {data.partitioning && (
+            <span
+              className="ml-auto flex items-center gap-0.5 px-1 rounded bg-slate-200/70 text-slate-600 text-[9px] font-semibold"
+              title={`Partitioned by ${data.partitioning.method} (${data.partitioning.expression})`}
+            >
+              <Layers size={10} />
+              {data.partitioning.method}
+            </span>
+          )}
         </div>
         {data.comment && (
-          <div className="text-xs text-slate-500 mt-1 truncate" title={data.comment}>
+          <div className="text-xs text-slate-500 mt-1 truncate" title={data.description ?? data.comment}>
             {data.comment}
           </div>
         )}
       </div>
 
-      {/* Columns */}
-      <div className="max-h-[400px] overflow-y-auto bg-white">
-        {data.columns.map((col, index) => (
-          <div 
-            key={col.name} 
-            className={`
-              relative flex items-center justify-between px-3 py-2 text-xs border-b border-slate-50 last:border-0
-              ${col.isPrimaryKey ? 'bg-yellow-50/50' : ''}
-              hover:bg-slate-50
-            `}
-          >
-            {/* Left Handle for incoming connections */}
-            <Handle
-              type="target"
-              position={Position.Left}
-              id={`${col.name}-target`}
-              className={`!w-2 !h-2 !bg-slate-300 !-left-1 ${data.dimmed ? '!opacity-0' : ''}`}
-            />
+      {sampleRows.length > 0 && (
+        <div className="nodrag flex border-b border-slate-100 text-[11px] font-medium">
+          {renderTab('columns', `Columns (${data.columns.length})`)}
+          {renderTab('data', `Data (${data.sampleData!.total})`)}
+        </div>
+      )}
 
-            <div className="flex items-center gap-2 flex-1 min-w-0">
-              {col.isPrimaryKey && <Key size={12} className="text-yellow-600 shrink-0" />}
-              <span className={`font-medium truncate ${col.isPrimaryKey ? 'text-yellow-700' : 'text-slate-700'}`} title={col.name}>
-                {col.name}
-              </span>
+      {showData && (
+        <div className="relative">
+          {/* Column handles stay mounted so edges keep a place to attach */}
+          {data.columns.map(col => (
+            <div key={col.name} className="absolute inset-0 pointer-events-none">
+              {renderTargetHandle(col.name)}
+              {renderSourceHandle(col.name)}
             </div>
-            
-            <div className="flex items-center gap-2 ml-2 shrink-0">
-              <span className="text-slate-400 font-mono text-[10px]">{col.type}</span>
-              {col.comment && (
-                <span className="text-slate-300 truncate max-w-[80px]" title={col.comment}>
-                  {/* Only show first few chars of comment */}
-                  {col.comment.substring(0, 10)}{col.comment.length > 10 ? '...' : ''}
+          ))}
+          <div className="nowheel nodrag max-h-[400px] max-w-[560px] overflow-auto bg-white">
+            <table className="text-[10px] font-mono border-collapse">
+              <thead className="sticky top-0 bg-slate-50">
+                <tr>
+                  {data.columns.map(col => (
+                    <th key={col.name} className="px-2 py-1 text-left font-semibold text-slate-500 whitespace-nowrap border-b border-slate-100" title={col.description}>
+                      {columnTitle(col)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {sampleRows.map((row, index) => (
+                  <tr key={index} className="border-b border-slate-50 last:border-0 hover:bg-slate-50">
+                    {data.columns.map(col => {
+                      const value = row[col.name];
+                      return (
+                        <td key={col.name} className="px-2 py-1 text-slate-700 whitespace-nowrap max-w-[200px] truncate" title={value ?? 'NULL'}>
+                          {value === null ? <span className="italic text-slate-300">NULL</span> : value}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {data.sampleData!.total > sampleRows.length && (
+            <div className="px-3 py-1 text-[10px] text-slate-400 border-t border-slate-100">
+              First {sampleRows.length} of {data.sampleData!.total} rows
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Columns */}
+      {!showData && (
+        <div className="max-h-[400px] overflow-y-auto bg-white">
+          {data.columns.map((col, index) => (
+            <div 
+              key={col.name} 
+              title={describeColumn(col)}
+              className={`
+                relative flex items-center justify-between px-3 py-2 text-xs border-b border-slate-50 last:border-0
+                ${data.matchedColumns?.includes(col.name) ? 'bg-amber-100/70' : col.isPrimaryKey ? 'bg-yellow-50/50' : ''}
+                hover:bg-slate-50
+              `}
+            >
+              {renderTargetHandle(col.name)}
+
+              <div className="flex items-center gap-2 flex-1 min-w-0">
+                {col.isPrimaryKey && <Key size={12} className="text-yellow-600 shrink-0" />}
+                <span className={`font-medium truncate ${col.isPrimaryKey ? 'text-yellow-700' : 'text-slate-700'}`}>
+                  {columnTitle(col)}
                 </span>
-              )}
+                {labelMode === ColumnLabelMode.BOTH && col.label && (
+                  <span className="text-slate-400 truncate">{col.label}</span>
+                )}
+              </div>
+              
+              <div className="flex items-center gap-2 ml-2 shrink-0">
+                {col.generated && (
+                  <span className="px-1 rounded bg-amber-50 text-amber-600 text-[9px] font-semibold" title={`Computed (${col.generated}): ${col.expression}`}>
+                    fx
+                  </span>
+                )}
+                {uniqueColumns.has(col.name.toLowerCase()) && (
+                  <span className="px-1 rounded bg-violet-50 text-violet-600 text-[9px] font-semibold" title="Unique">UQ</span>
+                )}
+                {indexedColumns.has(col.name.toLowerCase()) && !uniqueColumns.has(col.name.toLowerCase()) && (
+                  <span className="px-1 rounded bg-sky-50 text-sky-600 text-[9px] font-semibold" title="Indexed">IX</span>
+                )}
+                {col.type
+                  ? (
+                    <span
+                      className={`text-slate-400 font-mono text-[10px] ${col.allowedValues ? 'underline decoration-dotted' : ''}`}
+                      title={col.allowedValues?.join(', ')}
+                    >
+                      {col.allowedValues ? col.baseType : col.type}
+                    </span>
+                  )
+                  : col.expression && <span className="text-violet-400 italic text-[10px]">expr</span>}
+              </div>
+
+              {renderSourceHandle(col.name)}
             </div>
+          ))}
+        </div>
+      )}
 
-            {/* Right Handle for outgoing connections */}
-            <Handle
-              type="source"
-              position={Position.Right}
-              id={`${col.name}-source`}
-              className={`!w-2 !h-2 !bg-slate-300 !-right-1 ${data.dimmed ? '!opacity-0' : ''}`}
-            />
-          </div>
-        ))}
-      </div>
+      {/* Indexes */}
+      {data.indexes.length > 0 && (
+        <div className="border-t border-slate-100 bg-slate-50/50 text-xs">
+          <button
+            className="nodrag w-full flex items-center gap-1 px-3 py-1.5 text-slate-500 hover:text-slate-700"
+            onClick={() => setShowIndexes(v => !v)}
+          >
+            {showIndexes ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+            Indexes ({data.indexes.length})
+          </button>
+          {showIndexes && (
+            <div className="px-3 pb-2 space-y-1">
+              {/* Index names can be empty or repeated, so they are no key */}
+              {data.indexes.map((idx, index) => (
+                <div key={index} className="flex items-center justify-between gap-2">
+                  <span className="font-medium text-slate-600 truncate" title={idx.name}>{idx.name}</span>
+                  <span className="text-slate-400 font-mono text-[10px] truncate" title={idx.columns.join(', ')}>
+                    {idx.isUnique && <span className="text-violet-600 mr-1">UNIQUE</span>}
+                    ({idx.columns.join(', ')}){idx.method ? ` ${idx.method}` : ''}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,20 @@
+import { Cardinality, RelationshipDefinition, TableDefinition } from '../types';
+
+const sameColumns = (a: string[], b: string[]) =>
+  a.length === b.length && a.every(name => b.some(other => other.toLowerCase() === name.toLowerCase()));
+
+/**
+ * Cardinality of a relationship from the referencing side's keys. Columns that make up the whole
+ * primary key or a unique index allow one referencing row per referenced row (1:1); anything else
+ * allows many (1:N). The relationship is optional when any of the columns is nullable.
+ */
+export const deriveCardinality = (
+  table: TableDefinition | undefined,
+  columns: string[],
+): Pick<RelationshipDefinition, 'cardinality' | 'optional'> => {
+  if (!table) return { cardinality: Cardinality.ONE_TO_MANY, optional: false };
+  const primaryKey = table.columns.filter(c => c.isPrimaryKey).map(c => c.name);
+  const isUnique = sameColumns(columns, primaryKey) || table.indexes.some(index => index.isUnique && sameColumns(columns, index.columns));
+  const optional = columns.some(name => table.columns.find(c => c.name.toLowerCase() === name.toLowerCase())?.isNullable ?? false);
+  return { cardinality: isUnique ? Cardinality.ONE_TO_ONE : Cardinality.ONE_TO_MANY, optional };
+};
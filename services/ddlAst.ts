@@ -0,0 +1,306 @@
+// Typed AST for the DDL statements understood by ddlParser.
+// The UI model in types.ts is derived from these nodes by sqlParser.
+
+export interface SourceSpan {
+  start: number;
+  end: number;
+  line: number;
+  column: number;
+}
+
+export interface QualifiedName {
+  schema?: string;
+  name: string;
+}
+
+export interface DataTypeNode {
+  name: string;
+  // Raw arguments between the parentheses, e.g. ['17', '2'] for decimal(17,2)
+  args: string[];
+  // Type exactly as written in the source, without trailing modifiers
+  text: string;
+  arrayDimensions?: number;
+  unsigned?: boolean;
+  zerofill?: boolean;
+}
+
+export type ReferentialActionNode = 'CASCADE' | 'SET NULL' | 'SET DEFAULT' | 'RESTRICT' | 'NO ACTION';
+
+export interface ReferenceNode {
+  table: QualifiedName;
+  // Empty when the referenced table's primary key is implied
+  columns: string[];
+  onDelete?: ReferentialActionNode;
+  onUpdate?: ReferentialActionNode;
+}
+
+export type ColumnConstraintNode =
+  | { kind: 'notNull' }
+  | { kind: 'null' }
+  | { kind: 'primaryKey' }
+  | { kind: 'unique' }
+  | { kind: 'comment'; value: string }
+  // Expressions are kept as written, string literals include their quotes
+  | { kind: 'default'; expression: string }
+  | { kind: 'onUpdate'; expression: string }
+  | { kind: 'autoIncrement' }
+  // GENERATED ... AS IDENTITY
+  | { kind: 'identity' }
+  // [GENERATED ALWAYS] AS (expr) [VIRTUAL | STORED | PERSISTED]; expression without the parentheses
+  | { kind: 'generated'; expression: string; stored: boolean }
+  | { kind: 'check'; name?: string; expression: string }
+  | { kind: 'characterSet'; value: string }
+  | { kind: 'collate'; value: string }
+  | { kind: 'references'; reference: ReferenceNode }
+  | { kind: 'attribute'; text: string };
+
+export interface ColumnNode {
+  name: string;
+  dataType: DataTypeNode;
+  constraints: ColumnConstraintNode[];
+  span: SourceSpan;
+}
+
+export interface KeyPartNode {
+  column: string;
+  length?: number;
+  order?: 'ASC' | 'DESC';
+}
+
+export type TableConstraintNode =
+  | { kind: 'primaryKey'; name?: string; columns: KeyPartNode[]; span: SourceSpan }
+  | { kind: 'foreignKey'; name?: string; columns: string[]; reference: ReferenceNode; span: SourceSpan }
+  | { kind: 'index'; name?: string; unique: boolean; columns: KeyPartNode[]; method?: string; span: SourceSpan }
+  // SQL Server default constraint: DEFAULT expr FOR column
+  | { kind: 'default'; name?: string; column: string; expression: string; span: SourceSpan }
+  | { kind: 'check'; name?: string; expression: string; span: SourceSpan }
+  | { kind: 'unknown'; text: string; span: SourceSpan };
+
+export interface TableOptionNode {
+  name: string;
+  value: string;
+}
+
+// PARTITION BY method (key) / SUBPARTITION BY method (key)
+export interface PartitionKeyNode {
+  // RANGE, LIST, HASH, KEY, RANGE COLUMNS, LINEAR HASH...
+  method: string;
+  // Key as written between the parentheses
+  expression: string;
+  // Columns referenced by the key, e.g. ['created_at'] for RANGE (YEAR(created_at))
+  columns: string[];
+  // PARTITIONS n / SUBPARTITIONS n
+  count?: number;
+}
+
+export interface PartitionNode {
+  name: string;
+  // VALUES LESS THAN (...), VALUES IN (...), FOR VALUES FROM (...) TO (...), as written
+  bound?: string;
+}
+
+export interface PartitioningNode extends PartitionKeyNode {
+  // Oracle interval partitioning: INTERVAL (NUMTOYMINTERVAL(1, 'MONTH'))
+  interval?: string;
+  subpartitioning?: PartitionKeyNode;
+  partitions: PartitionNode[];
+}
+
+export interface CreateTableStatement {
+  kind: 'createTable';
+  name: QualifiedName;
+  columns: ColumnNode[];
+  constraints: TableConstraintNode[];
+  options: TableOptionNode[];
+  partitioning?: PartitioningNode;
+  // PostgreSQL CREATE TABLE child PARTITION OF parent FOR VALUES ...
+  partitionOf?: { parent: QualifiedName; bound: string };
+  // CREATE TABLE t LIKE other, or (LIKE other, ...)
+  like?: QualifiedName;
+  // CREATE TABLE t [AS] SELECT ...
+  query?: QueryNode;
+  span: SourceSpan;
+}
+
+export type ColumnPositionNode = { first: true } | { after: string };
+
+export type AlterColumnChangeNode =
+  | { kind: 'setDefault'; expression: string }
+  | { kind: 'dropDefault' }
+  | { kind: 'setNotNull' }
+  | { kind: 'dropNotNull' }
+  | { kind: 'setType'; dataType: DataTypeNode }
+  | { kind: 'setIdentity' }
+  | { kind: 'unknown'; text: string };
+
+export type AlterActionNode =
+  | { kind: 'addColumn'; column: ColumnNode; position?: ColumnPositionNode; span: SourceSpan }
+  | { kind: 'dropColumn'; column: string; span: SourceSpan }
+  | { kind: 'modifyColumn'; column: ColumnNode; position?: ColumnPositionNode; span: SourceSpan }
+  | { kind: 'changeColumn'; oldName: string; column: ColumnNode; position?: ColumnPositionNode; span: SourceSpan }
+  | { kind: 'renameColumn'; oldName: string; newName: string; span: SourceSpan }
+  | { kind: 'alterColumn'; column: string; change: AlterColumnChangeNode; span: SourceSpan }
+  | { kind: 'addConstraint'; constraint: TableConstraintNode; span: SourceSpan }
+  | { kind: 'dropPrimaryKey'; span: SourceSpan }
+  | { kind: 'dropIndex'; name: string; span: SourceSpan }
+  | { kind: 'dropForeignKey'; name: string; span: SourceSpan }
+  // DROP CONSTRAINT removes whichever key or index carries the name
+  | { kind: 'dropConstraint'; name: string; span: SourceSpan }
+  | { kind: 'renameTable'; newName: QualifiedName; span: SourceSpan }
+  | { kind: 'option'; option: TableOptionNode; span: SourceSpan }
+  | { kind: 'partitionBy'; partitioning: PartitioningNode; span: SourceSpan }
+  | { kind: 'removePartitioning'; span: SourceSpan }
+  // ADD PARTITION (...) and PostgreSQL ATTACH PARTITION
+  | { kind: 'addPartitions'; partitions: PartitionNode[]; span: SourceSpan }
+  // DROP PARTITION and PostgreSQL DETACH PARTITION
+  | { kind: 'dropPartitions'; names: string[]; span: SourceSpan }
+  | { kind: 'unknown'; text: string; span: SourceSpan };
+
+export interface AlterTableStatement {
+  kind: 'alterTable';
+  name: QualifiedName;
+  actions: AlterActionNode[];
+  span: SourceSpan;
+}
+
+export interface CreateIndexStatement {
+  kind: 'createIndex';
+  name?: string;
+  table: QualifiedName;
+  unique: boolean;
+  columns: KeyPartNode[];
+  method?: string;
+  span: SourceSpan;
+}
+
+export interface CommentStatement {
+  kind: 'comment';
+  target: 'table' | 'column';
+  table: QualifiedName;
+  column?: string;
+  // Empty for COMMENT ... IS NULL
+  text: string;
+  span: SourceSpan;
+}
+
+// One item of a view's select list
+export type ViewColumnNode =
+  | {
+      kind: 'column';
+      name: string;
+      // Expression as written, without the alias
+      expression: string;
+      // Set when the expression is a plain, possibly qualified, column reference
+      reference?: { qualifier?: string; column: string };
+    }
+  // * or alias.*
+  | { kind: 'star'; qualifier?: string };
+
+// A table or view named in FROM/JOIN; CTE names are excluded
+export interface ViewSourceNode {
+  table: QualifiedName;
+  alias?: string;
+  // Read by a subquery, CTE body or later UNION branch rather than the main FROM clause: a
+  // dependency, but not something the select list's columns come from
+  nested?: boolean;
+}
+
+// The parts of a SELECT that define the columns it produces
+export interface QueryNode {
+  // Select list of the first SELECT; a UNION's later branches are not consulted
+  columns: ViewColumnNode[];
+  sources: ViewSourceNode[];
+}
+
+export interface CreateViewStatement {
+  kind: 'createView';
+  name: QualifiedName;
+  // Explicit CREATE VIEW v (a, b) column names, empty when omitted
+  columnNames: string[];
+  // Select list of the first SELECT; a UNION's later branches are not consulted
+  columns: ViewColumnNode[];
+  sources: ViewSourceNode[];
+  span: SourceSpan;
+}
+
+// CREATE TRIGGER / PROCEDURE / FUNCTION. The body is not modelled beyond the tables it touches.
+export interface CreateRoutineStatement {
+  kind: 'createRoutine';
+  routineKind: 'trigger' | 'procedure' | 'function';
+  name: QualifiedName;
+  // Triggers only: the table the trigger fires on and its timing and events as written,
+  // e.g. 'AFTER INSERT OR UPDATE'
+  table?: QualifiedName;
+  event?: string;
+  // Tables named in FROM/JOIN, and targets of INSERT, UPDATE, DELETE, MERGE and TRUNCATE;
+  // temporary tables and trigger pseudo-tables are included and left to the builder
+  reads: QualifiedName[];
+  writes: QualifiedName[];
+  // Routines run with CALL, EXEC or EXECUTE FUNCTION/PROCEDURE
+  calls: QualifiedName[];
+  span: SourceSpan;
+}
+
+// DROP TABLE/VIEW/TRIGGER/PROCEDURE/FUNCTION [IF EXISTS] name, ...
+export interface DropStatement {
+  kind: 'drop';
+  target: 'table' | 'view' | CreateRoutineStatement['routineKind'];
+  names: QualifiedName[];
+  span: SourceSpan;
+}
+
+// USE db, or SET search_path: unqualified names that follow belong to this schema
+export interface UseStatement {
+  kind: 'use';
+  schema: string;
+  span: SourceSpan;
+}
+
+// INSERT [INTO] t [(cols)] VALUES (...), (...); INSERT ... SELECT is not modelled
+export interface InsertStatement {
+  kind: 'insert';
+  table: QualifiedName;
+  // Target columns, or undefined for every column in table order
+  columns?: string[];
+  // NULL is null, string literals are unquoted, any other value is kept as written
+  rows: (string | null)[][];
+  span: SourceSpan;
+}
+
+export interface UnknownStatement {
+  kind: 'unknown';
+  text: string;
+  span: SourceSpan;
+}
+
+export type DdlStatement =
+  | CreateTableStatement
+  | CreateViewStatement
+  | CreateRoutineStatement
+  | DropStatement
+  | AlterTableStatement
+  | CreateIndexStatement
+  | CommentStatement
+  | UseStatement
+  | InsertStatement
+  | UnknownStatement;
+
+export interface DdlParseError {
+  message: string;
+  line: number;
+  column: number;
+  span: SourceSpan;
+}
+
+// One statement of a streamed parse, with the error that turned it into 'unknown'
+export interface ParsedStatement {
+  statement: DdlStatement;
+  error?: DdlParseError;
+}
+
+export interface DdlScript {
+  // The text every span points into
+  source: string;
+  statements: DdlStatement[];
+  errors: DdlParseError[];
+}
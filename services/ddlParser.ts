@@ -0,0 +1,1644 @@
+import { scanTokens, Token, TokenType, SqlLexError } from './sqlLexer';
+import { DIALECTS, DialectConfig } from './sqlDialects';
+import { SqlDialect } from '../types';
+import {
+  AlterActionNode,
+  AlterColumnChangeNode,
+  AlterTableStatement,
+  CommentStatement,
+  ColumnConstraintNode,
+  ColumnNode,
+  ColumnPositionNode,
+  CreateIndexStatement,
+  CreateRoutineStatement,
+  CreateTableStatement,
+  CreateViewStatement,
+  DataTypeNode,
+  DdlParseError,
+  DdlScript,
+  DdlStatement,
+  DropStatement,
+  InsertStatement,
+  KeyPartNode,
+  ParsedStatement,
+  PartitioningNode,
+  PartitionKeyNode,
+  PartitionNode,
+  QualifiedName,
+  QueryNode,
+  ReferenceNode,
+  ReferentialActionNode,
+  SourceSpan,
+  TableConstraintNode,
+  TableOptionNode,
+  UnknownStatement,
+  UseStatement,
+  ViewColumnNode,
+  ViewSourceNode,
+} from './ddlAst';
+
+export class DdlSyntaxError extends Error {
+  token: Token;
+
+  constructor(message: string, token: Token) {
+    super(message);
+    this.name = 'DdlSyntaxError';
+    this.token = token;
+  }
+}
+
+// Cursor over the tokens of a single statement. The last token is always EOF.
+interface Cursor {
+  sql: string;
+  tokens: Token[];
+  pos: number;
+  dialect: DialectConfig;
+}
+
+// Words that open a table-level constraint instead of a column definition
+const TABLE_CONSTRAINT_WORDS = ['CONSTRAINT', 'PRIMARY', 'UNIQUE', 'FOREIGN', 'CHECK'];
+const INLINE_INDEX_WORDS = ['KEY', 'INDEX', 'FULLTEXT', 'SPATIAL'];
+
+// Words that can start a column constraint, so they are never taken as a type name
+const COLUMN_CONSTRAINT_WORDS = [
+  'NOT', 'NULL', 'DEFAULT', 'CONSTRAINT', 'PRIMARY', 'UNIQUE', 'REFERENCES', 'CHECK', 'COMMENT', 'GENERATED', 'AUTO_INCREMENT', 'COLLATE',
+  // SQL Server computed columns: total AS (price * qty)
+  'AS',
+];
+
+// Storage keywords after a generated column expression; VIRTUAL is the default everywhere
+const STORED_WORDS = ['STORED', 'PERSISTED', 'PERSISTENT'];
+
+// Type names made of several words; the longest match wins
+const MULTI_WORD_TYPES = [
+  ['NATIONAL', 'CHARACTER', 'VARYING'],
+  ['CHARACTER', 'VARYING'],
+  ['CHAR', 'VARYING'],
+  ['DOUBLE', 'PRECISION'],
+  ['BIT', 'VARYING'],
+  ['LONG', 'VARCHAR'],
+];
+
+// Modifiers allowed between CREATE and TABLE
+const CREATE_TABLE_MODIFIERS = ['TEMPORARY', 'TEMP', 'UNLOGGED', 'GLOBAL', 'LOCAL'];
+
+// Keywords that end a FROM item or select list, so they are never read as an alias
+const QUERY_CLAUSE_WORDS = [
+  'SELECT', 'FROM', 'WHERE', 'GROUP', 'ORDER', 'HAVING', 'LIMIT', 'OFFSET', 'FETCH', 'UNION', 'INTERSECT', 'EXCEPT', 'MINUS',
+  'ON', 'USING', 'JOIN', 'INNER', 'LEFT', 'RIGHT', 'FULL', 'CROSS', 'NATURAL', 'OUTER', 'STRAIGHT_JOIN', 'APPLY', 'LATERAL',
+  'WINDOW', 'FOR', 'WITH', 'CONNECT', 'START', 'QUALIFY', 'INTO', 'AS',
+];
+// Keywords inside expressions that can never be a column alias or end an aliased operand
+const EXPRESSION_WORDS = [
+  'AND', 'OR', 'NOT', 'IS', 'NULL', 'TRUE', 'FALSE', 'CASE', 'WHEN', 'THEN', 'ELSE', 'END', 'LIKE', 'IN', 'BETWEEN',
+  'DISTINCT', 'INTERVAL', 'ESCAPE', 'COLLATE', 'ASC', 'DESC', 'UNKNOWN',
+];
+// CREATE ... TRIGGER/PROCEDURE/FUNCTION; T-SQL abbreviates PROCEDURE to PROC
+const ROUTINE_WORDS = ['TRIGGER', 'PROCEDURE', 'PROC', 'FUNCTION'];
+
+// Words that can come between INSERT/DELETE/UPDATE and the target table
+const DML_MODIFIERS = ['LOW_PRIORITY', 'DELAYED', 'HIGH_PRIORITY', 'QUICK', 'IGNORE', 'ONLY'];
+
+const DROP_TARGETS: Record<string, DropStatement['target']> = {
+  TABLE: 'table',
+  VIEW: 'view',
+  TRIGGER: 'trigger',
+  PROCEDURE: 'procedure',
+  PROC: 'procedure',
+  FUNCTION: 'function',
+};
+
+// SELECT modifiers before the first select list item
+const SELECT_MODIFIERS = ['ALL', 'DISTINCT', 'DISTINCTROW', 'HIGH_PRIORITY', 'STRAIGHT_JOIN', 'SQL_NO_CACHE', 'SQL_CACHE', 'SQL_CALC_FOUND_ROWS', 'SQL_SMALL_RESULT', 'SQL_BIG_RESULT', 'SQL_BUFFER_RESULT'];
+
+const peek = (c: Cursor, offset = 0): Token => c.tokens[Math.min(c.pos + offset, c.tokens.length - 1)];
+
+const next = (c: Cursor): Token => {
+  const token = peek(c);
+  if (token.type !== TokenType.EOF) c.pos++;
+  return token;
+};
+
+const previous = (c: Cursor): Token => c.tokens[Math.max(c.pos - 1, 0)];
+
+export const isWord = (token: Token, ...words: string[]) =>
+  token.type === TokenType.WORD && words.includes(token.value.toUpperCase());
+
+export const isPunct = (token: Token, ch: string) =>
+  token.type === TokenType.PUNCTUATION && token.value === ch;
+
+const isOperator = (token: Token, op: string) => token.type === TokenType.OPERATOR && token.value === op;
+
+const atEnd = (c: Cursor) => peek(c).type === TokenType.EOF;
+
+// Whether the next table element is a constraint or index rather than a column
+const atTableConstraint = (c: Cursor) => {
+  const token = peek(c);
+  if (token.type !== TokenType.WORD) return false;
+  const word = token.value.toUpperCase();
+  return TABLE_CONSTRAINT_WORDS.includes(word) || (c.dialect.inlineIndexes && INLINE_INDEX_WORDS.includes(word));
+};
+
+// Consumes the given word sequence if it is next in the stream
+const acceptWords = (c: Cursor, ...words: string[]): boolean => {
+  for (let i = 0; i < words.length; i++) {
+    if (!isWord(peek(c, i), words[i])) return false;
+  }
+  c.pos += words.length;
+  return true;
+};
+
+const acceptPunct = (c: Cursor, ch: string): boolean => {
+  if (!isPunct(peek(c), ch)) return false;
+  c.pos++;
+  return true;
+};
+
+const acceptOperator = (c: Cursor, op: string): boolean => {
+  const token = peek(c);
+  if (token.type !== TokenType.OPERATOR || token.value !== op) return false;
+  c.pos++;
+  return true;
+};
+
+const describe = (token: Token) => (token.type === TokenType.EOF ? 'end of statement' : `'${token.value}'`);
+
+const expectWords = (c: Cursor, ...words: string[]) => {
+  if (!acceptWords(c, ...words)) {
+    throw new DdlSyntaxError(`Expected ${words.join(' ')} but found ${describe(peek(c))}`, peek(c));
+  }
+};
+
+const expectPunct = (c: Cursor, ch: string) => {
+  if (!acceptPunct(c, ch)) {
+    throw new DdlSyntaxError(`Expected '${ch}' but found ${describe(peek(c))}`, peek(c));
+  }
+};
+
+const spanOf = (first: Token, last: Token): SourceSpan => ({
+  start: first.start,
+  end: Math.max(last.end, first.end),
+  line: first.line,
+  column: first.column,
+});
+
+const textOf = (c: Cursor, first: Token, last: Token) => c.sql.substring(first.start, Math.max(last.end, first.end));
+
+const parseIdentifier = (c: Cursor): string => {
+  const token = peek(c);
+  if (token.type !== TokenType.WORD && token.type !== TokenType.QUOTED_IDENTIFIER) {
+    throw new DdlSyntaxError(`Expected identifier but found ${describe(token)}`, token);
+  }
+  c.pos++;
+  return token.value;
+};
+
+// name, schema.name or database.schema.name (SQL Server); the database part is dropped
+const parseQualifiedName = (c: Cursor): QualifiedName => {
+  const parts = [parseIdentifier(c)];
+  while (acceptPunct(c, '.')) parts.push(parseIdentifier(c));
+  const name = parts[parts.length - 1];
+  return parts.length > 1 ? { schema: parts[parts.length - 2], name } : { name };
+};
+
+// Skips a balanced parenthesised group; the cursor must be on the opening '('
+const skipGroup = (c: Cursor): Token => {
+  const open = peek(c);
+  let depth = 0;
+  while (!atEnd(c)) {
+    const token = next(c);
+    if (isPunct(token, '(')) depth++;
+    else if (isPunct(token, ')') && --depth === 0) return token;
+  }
+  throw new DdlSyntaxError('Unbalanced parentheses', open);
+};
+
+// Text between the parentheses of a group; the cursor must be on the opening '('
+const parseGroupText = (c: Cursor): string => {
+  const open = peek(c);
+  const close = skipGroup(c);
+  return c.sql.substring(open.end, close.start).trim();
+};
+
+// Consumes the rest of a table element, stopping before the ',' or ')' that ends it
+const skipToElementEnd = (c: Cursor) => {
+  while (!atEnd(c) && !isPunct(peek(c), ',') && !isPunct(peek(c), ')')) {
+    if (isPunct(peek(c), '(')) skipGroup(c);
+    else next(c);
+  }
+};
+
+// Reads a single operand such as 'abc', -1, NULL, CURRENT_TIMESTAMP(3) or (expr).
+// With `unquote`, a lone string literal is returned without its quotes.
+const parseOperandText = (c: Cursor, unquote = false): string => {
+  const first = peek(c);
+  if (isPunct(first, '(')) {
+    return textOf(c, first, skipGroup(c));
+  }
+  if (first.type === TokenType.OPERATOR && (first.value === '-' || first.value === '+')) next(c);
+  const token = next(c);
+  if (token.type === TokenType.EOF) {
+    throw new DdlSyntaxError('Expected a value but found end of statement', token);
+  }
+  let last = token.type === TokenType.WORD && isPunct(peek(c), '(') ? skipGroup(c) : token;
+  // PostgreSQL casts: 'abc'::character varying
+  while (peek(c).type === TokenType.OPERATOR && peek(c).value === '::') {
+    next(c);
+    parseDataType(c);
+    last = previous(c);
+  }
+  return unquote && first.type === TokenType.STRING && first === last ? first.value : textOf(c, first, last);
+};
+
+// Splits the contents of a parenthesised list on its top-level commas
+const parseGroupArgs = (c: Cursor): string[] => {
+  const args: string[] = [];
+  expectPunct(c, '(');
+  let first: Token | null = null;
+  let depth = 0;
+  while (!atEnd(c)) {
+    const token = peek(c);
+    if (depth === 0 && (isPunct(token, ',') || isPunct(token, ')'))) {
+      if (first) args.push(first.type === TokenType.STRING && first === previous(c) ? first.value : textOf(c, first, previous(c)));
+      first = null;
+      next(c);
+      if (isPunct(token, ')')) return args;
+      continue;
+    }
+    if (isPunct(token, '(')) depth++;
+    else if (isPunct(token, ')')) depth--;
+    if (!first) first = token;
+    next(c);
+  }
+  throw new DdlSyntaxError('Unterminated argument list', peek(c));
+};
+
+const parseDataType = (c: Cursor): DataTypeNode => {
+  const first = peek(c);
+  // The type may be omitted (SQLite, Oracle MODIFY), so a constraint keyword here means "no type"
+  if ((first.type !== TokenType.WORD && first.type !== TokenType.QUOTED_IDENTIFIER) || isWord(first, ...COLUMN_CONSTRAINT_WORDS)) {
+    return { name: '', args: [], text: '' };
+  }
+  const words = MULTI_WORD_TYPES.find(sequence => acceptWords(c, ...sequence));
+  let name = words ? words.join(' ') : next(c).value;
+  // User-defined types may be schema-qualified, e.g. public.mood
+  while (isPunct(peek(c), '.')) {
+    next(c);
+    name += `.${parseIdentifier(c)}`;
+  }
+  const args = isPunct(peek(c), '(') ? parseGroupArgs(c) : [];
+  if (acceptWords(c, 'WITH', 'TIME', 'ZONE')) name += ' with time zone';
+  else if (acceptWords(c, 'WITHOUT', 'TIME', 'ZONE')) name += ' without time zone';
+
+  // Array suffixes: int[], text[][], integer[3], integer ARRAY
+  let arrayDimensions = 0;
+  for (;;) {
+    if (isOperator(peek(c), '[')) {
+      next(c);
+      if (peek(c).type === TokenType.NUMBER) next(c);
+      if (!isOperator(peek(c), ']')) {
+        throw new DdlSyntaxError(`Expected ']' but found ${describe(peek(c))}`, peek(c));
+      }
+      next(c);
+      arrayDimensions++;
+    } else if (acceptWords(c, 'ARRAY')) {
+      arrayDimensions++;
+    } else {
+      break;
+    }
+  }
+
+  // SQL Server scripts bracket type names: [nvarchar](50) reads as nvarchar(50)
+  const text = first.type === TokenType.QUOTED_IDENTIFIER
+    ? first.value + c.sql.substring(first.end, previous(c).end)
+    : textOf(c, first, previous(c));
+  const dataType: DataTypeNode = { name: name.toLowerCase(), args, text };
+  if (arrayDimensions > 0) dataType.arrayDimensions = arrayDimensions;
+  for (;;) {
+    if (acceptWords(c, 'UNSIGNED')) dataType.unsigned = true;
+    else if (acceptWords(c, 'SIGNED')) dataType.unsigned = false;
+    else if (acceptWords(c, 'ZEROFILL')) dataType.zerofill = true;
+    else return dataType;
+  }
+};
+
+const parseKeyParts = (c: Cursor): KeyPartNode[] => {
+  const parts: KeyPartNode[] = [];
+  expectPunct(c, '(');
+  do {
+    let part: KeyPartNode;
+    const first = peek(c);
+    if (isPunct(first, '(')) {
+      // Functional key part, e.g. ((lower(name)))
+      part = { column: textOf(c, first, skipGroup(c)) };
+    } else if (first.type === TokenType.WORD && isPunct(peek(c, 1), '(') && peek(c, 2).type !== TokenType.NUMBER) {
+      // PostgreSQL expression index, e.g. lower(email)
+      next(c);
+      part = { column: textOf(c, first, skipGroup(c)) };
+    } else {
+      part = { column: parseIdentifier(c) };
+    }
+    if (isPunct(peek(c), '(') && peek(c, 1).type === TokenType.NUMBER) {
+      next(c);
+      part.length = Number(next(c).value);
+      expectPunct(c, ')');
+    }
+    // ASC/DESC may be mixed with PostgreSQL extras such as COLLATE, opclasses and NULLS FIRST
+    while (!atEnd(c) && !isPunct(peek(c), ',') && !isPunct(peek(c), ')')) {
+      if (acceptWords(c, 'ASC')) part.order = 'ASC';
+      else if (acceptWords(c, 'DESC')) part.order = 'DESC';
+      else if (isPunct(peek(c), '(')) skipGroup(c);
+      else next(c);
+    }
+    parts.push(part);
+  } while (acceptPunct(c, ','));
+  expectPunct(c, ')');
+  return parts;
+};
+
+const parseReferentialAction = (c: Cursor): ReferentialActionNode => {
+  if (acceptWords(c, 'CASCADE')) return 'CASCADE';
+  if (acceptWords(c, 'RESTRICT')) return 'RESTRICT';
+  if (acceptWords(c, 'SET', 'NULL')) return 'SET NULL';
+  if (acceptWords(c, 'SET', 'DEFAULT')) return 'SET DEFAULT';
+  if (acceptWords(c, 'NO', 'ACTION')) return 'NO ACTION';
+  throw new DdlSyntaxError(`Unknown referential action ${describe(peek(c))}`, peek(c));
+};
+
+// REFERENCES tbl [(cols)] [MATCH type] [ON DELETE action] [ON UPDATE action]
+const parseReference = (c: Cursor): ReferenceNode => {
+  expectWords(c, 'REFERENCES');
+  const reference: ReferenceNode = { table: parseQualifiedName(c), columns: [] };
+  if (isPunct(peek(c), '(')) {
+    reference.columns = parseKeyParts(c).map(part => part.column);
+  }
+  for (;;) {
+    if (acceptWords(c, 'MATCH')) {
+      next(c);
+    } else if (acceptWords(c, 'ON', 'DELETE')) {
+      reference.onDelete = parseReferentialAction(c);
+    } else if (acceptWords(c, 'ON', 'UPDATE')) {
+      reference.onUpdate = parseReferentialAction(c);
+    } else {
+      return reference;
+    }
+  }
+};
+
+// SQL Server allows an unparenthesised computed column expression: total AS price * qty PERSISTED
+const parseComputedText = (c: Cursor): string => {
+  const first = peek(c);
+  while (!atEnd(c) && !isPunct(peek(c), ',') && !isPunct(peek(c), ')') && !isWord(peek(c), ...STORED_WORDS, 'NOT', 'NULL', 'CONSTRAINT')) {
+    if (isPunct(peek(c), '(')) skipGroup(c);
+    else next(c);
+  }
+  if (peek(c) === first) throw new DdlSyntaxError(`Expected an expression but found ${describe(first)}`, first);
+  return textOf(c, first, previous(c));
+};
+
+const parseColumnConstraint = (c: Cursor): ColumnConstraintNode => {
+  // Named column constraints: CONSTRAINT name NOT NULL / PRIMARY KEY / REFERENCES ...
+  if (acceptWords(c, 'CONSTRAINT')) {
+    const name = parseIdentifier(c);
+    const constraint = parseColumnConstraint(c);
+    return constraint.kind === 'check' ? { ...constraint, name } : constraint;
+  }
+  if (acceptWords(c, 'NOT', 'NULL')) return { kind: 'notNull' };
+  if (acceptWords(c, 'NULL')) return { kind: 'null' };
+  if (acceptWords(c, 'PRIMARY', 'KEY') || acceptWords(c, 'KEY')) return { kind: 'primaryKey' };
+  if (acceptWords(c, 'UNIQUE')) {
+    acceptWords(c, 'KEY');
+    return { kind: 'unique' };
+  }
+  if (acceptWords(c, 'COMMENT')) {
+    const token = next(c);
+    if (token.type !== TokenType.STRING) {
+      throw new DdlSyntaxError(`Expected comment string but found ${describe(token)}`, token);
+    }
+    return { kind: 'comment', value: token.value };
+  }
+  if (acceptWords(c, 'DEFAULT')) return { kind: 'default', expression: parseOperandText(c) };
+  if (acceptWords(c, 'ON', 'UPDATE')) return { kind: 'onUpdate', expression: parseOperandText(c) };
+  if (acceptWords(c, 'AUTO_INCREMENT') || acceptWords(c, 'AUTOINCREMENT')) return { kind: 'autoIncrement' };
+  // SQL Server: IDENTITY [(seed, increment)]
+  if (acceptWords(c, 'IDENTITY')) {
+    if (isPunct(peek(c), '(')) skipGroup(c);
+    return { kind: 'identity' };
+  }
+  if (acceptWords(c, 'GENERATED', 'ALWAYS', 'AS', 'IDENTITY') || acceptWords(c, 'GENERATED', 'BY', 'DEFAULT', 'AS', 'IDENTITY')) {
+    // Sequence options
+    if (isPunct(peek(c), '(')) skipGroup(c);
+    return { kind: 'identity' };
+  }
+  // GENERATED ALWAYS AS (expr), or the MySQL/Oracle/SQL Server shorthand AS (expr)
+  if (acceptWords(c, 'GENERATED', 'ALWAYS', 'AS') || acceptWords(c, 'AS')) {
+    const expression = isPunct(peek(c), '(') ? parseGroupText(c) : parseComputedText(c);
+    const stored = isWord(peek(c), ...STORED_WORDS);
+    if (stored || isWord(peek(c), 'VIRTUAL')) next(c);
+    return { kind: 'generated', expression, stored };
+  }
+  if (acceptWords(c, 'CHECK')) {
+    const expression = parseGroupText(c);
+    // MySQL 8: [NOT] ENFORCED
+    if (!acceptWords(c, 'NOT', 'ENFORCED')) acceptWords(c, 'ENFORCED');
+    return { kind: 'check', expression };
+  }
+  if (acceptWords(c, 'CHARACTER', 'SET') || acceptWords(c, 'CHARSET')) {
+    return { kind: 'characterSet', value: parseIdentifier(c) };
+  }
+  if (acceptWords(c, 'COLLATE')) return { kind: 'collate', value: parseIdentifier(c) };
+  if (isWord(peek(c), 'REFERENCES')) return { kind: 'references', reference: parseReference(c) };
+
+  const first = peek(c);
+  if (isPunct(first, '(')) {
+    return { kind: 'attribute', text: textOf(c, first, skipGroup(c)) };
+  }
+  next(c);
+  const last = first.type === TokenType.WORD && isPunct(peek(c), '(') ? skipGroup(c) : first;
+  return { kind: 'attribute', text: textOf(c, first, last) };
+};
+
+const parseColumn = (c: Cursor): ColumnNode => {
+  const first = peek(c);
+  const name = parseIdentifier(c);
+  const dataType = parseDataType(c);
+  const constraints: ColumnConstraintNode[] = [];
+  // FIRST/AFTER can only follow a column inside ALTER TABLE, see parseColumnPosition
+  while (!atEnd(c) && !isPunct(peek(c), ',') && !isPunct(peek(c), ')') && !isWord(peek(c), 'FIRST', 'AFTER')) {
+    constraints.push(parseColumnConstraint(c));
+  }
+  return { name, dataType, constraints, span: spanOf(first, previous(c)) };
+};
+
+const parseTableConstraint = (c: Cursor): TableConstraintNode => {
+  const first = peek(c);
+  let name: string | undefined;
+  if (acceptWords(c, 'CONSTRAINT') && !isWord(peek(c), 'PRIMARY', 'UNIQUE', 'FOREIGN', 'CHECK')) {
+    name = parseIdentifier(c);
+  }
+
+  if (acceptWords(c, 'PRIMARY', 'KEY')) {
+    if (!acceptWords(c, 'CLUSTERED')) acceptWords(c, 'NONCLUSTERED');
+    if (acceptWords(c, 'USING')) next(c);
+    const columns = parseKeyParts(c);
+    skipToElementEnd(c);
+    return { kind: 'primaryKey', name, columns, span: spanOf(first, previous(c)) };
+  }
+
+  if (acceptWords(c, 'FOREIGN', 'KEY')) {
+    // MySQL allows an index name before the column list
+    if (!isPunct(peek(c), '(')) parseIdentifier(c);
+    const columns = parseKeyParts(c).map(part => part.column);
+    const reference = parseReference(c);
+    skipToElementEnd(c);
+    return { kind: 'foreignKey', name, columns, reference, span: spanOf(first, previous(c)) };
+  }
+
+  if (acceptWords(c, 'CHECK')) {
+    const expression = parseGroupText(c);
+    skipToElementEnd(c);
+    return { kind: 'check', name, expression, span: spanOf(first, previous(c)) };
+  }
+
+  // SQL Server: [CONSTRAINT DF_x] DEFAULT (0) FOR col
+  if (acceptWords(c, 'DEFAULT')) {
+    const expression = parseOperandText(c);
+    expectWords(c, 'FOR');
+    const column = parseIdentifier(c);
+    skipToElementEnd(c);
+    return { kind: 'default', name, column, expression, span: spanOf(first, previous(c)) };
+  }
+
+  // [UNIQUE|FULLTEXT|SPATIAL] {INDEX|KEY} [name] [USING method] (parts) [USING method]
+  if (isWord(peek(c), 'UNIQUE', 'FULLTEXT', 'SPATIAL', 'INDEX', 'KEY')) {
+    const prefix = next(c).value.toUpperCase();
+    if (prefix !== 'INDEX' && prefix !== 'KEY' && !acceptWords(c, 'INDEX')) acceptWords(c, 'KEY');
+    let method = prefix === 'FULLTEXT' || prefix === 'SPATIAL' ? prefix : undefined;
+    // SQL Server: UNIQUE [CLUSTERED|NONCLUSTERED] (cols)
+    if (isWord(peek(c), 'CLUSTERED', 'NONCLUSTERED')) method = next(c).value.toUpperCase();
+    const indexName = isPunct(peek(c), '(') || isWord(peek(c), 'USING') ? undefined : parseIdentifier(c);
+    if (acceptWords(c, 'USING')) method = next(c).value.toUpperCase();
+    const columns = parseKeyParts(c);
+    if (acceptWords(c, 'USING')) method = next(c).value.toUpperCase();
+    skipToElementEnd(c);
+    return {
+      kind: 'index',
+      name: indexName ?? name,
+      unique: prefix === 'UNIQUE',
+      columns,
+      method,
+      span: spanOf(first, previous(c)),
+    };
+  }
+
+  skipToElementEnd(c);
+  return { kind: 'unknown', text: textOf(c, first, previous(c)), span: spanOf(first, previous(c)) };
+};
+
+// Columns referenced by a partition key: identifiers that are neither function names nor keywords
+const partitionKeyColumns = (tokens: Token[]): string[] => {
+  const columns: string[] = [];
+  tokens.forEach((token, i) => {
+    const isColumn = token.type === TokenType.QUOTED_IDENTIFIER
+      || (token.type === TokenType.WORD && !isPunct(tokens[i + 1] ?? token, '(') && !isWord(token, ...EXPRESSION_WORDS));
+    if (isColumn && !columns.some(column => column.toLowerCase() === token.value.toLowerCase())) columns.push(token.value);
+  });
+  return columns;
+};
+
+// [LINEAR] {RANGE|LIST|HASH|KEY} [COLUMNS] (key) [PARTITIONS n]
+const parsePartitionKey = (c: Cursor, countWord: string): PartitionKeyNode => {
+  const linear = acceptWords(c, 'LINEAR');
+  const methodToken = next(c);
+  if (!isWord(methodToken, 'RANGE', 'LIST', 'HASH', 'KEY')) {
+    throw new DdlSyntaxError(`Unsupported partitioning method ${describe(methodToken)}`, methodToken);
+  }
+  let method = methodToken.value.toUpperCase();
+  if (acceptWords(c, 'COLUMNS')) method += ' COLUMNS';
+  if (linear) method = `LINEAR ${method}`;
+  // MySQL KEY ALGORITHM = 2
+  if (acceptWords(c, 'ALGORITHM')) {
+    acceptOperator(c, '=');
+    next(c);
+  }
+  const key: PartitionKeyNode = { method, expression: '', columns: [] };
+  if (isPunct(peek(c), '(')) {
+    const open = c.pos;
+    key.expression = parseGroupText(c);
+    key.columns = partitionKeyColumns(c.tokens.slice(open + 1, c.pos - 1));
+  }
+  if (acceptWords(c, countWord)) key.count = Number(next(c).value);
+  return key;
+};
+
+// PARTITION name [VALUES LESS THAN (...) | VALUES IN (...) | VALUES (...)] [options] [(SUBPARTITION ...)]
+const parsePartition = (c: Cursor): PartitionNode => {
+  expectWords(c, 'PARTITION');
+  const partition: PartitionNode = { name: parseIdentifier(c) };
+  if (isWord(peek(c), 'VALUES')) {
+    const first = next(c);
+    if (!acceptWords(c, 'LESS', 'THAN')) acceptWords(c, 'IN');
+    // MAXVALUE may appear without parentheses
+    if (isPunct(peek(c), '(')) skipGroup(c);
+    else next(c);
+    partition.bound = textOf(c, first, previous(c));
+  }
+  // ENGINE, COMMENT, TABLESPACE, subpartition lists
+  skipToElementEnd(c);
+  return partition;
+};
+
+const parsePartitioning = (c: Cursor): PartitioningNode => {
+  expectWords(c, 'PARTITION', 'BY');
+  const partitioning: PartitioningNode = { ...parsePartitionKey(c, 'PARTITIONS'), partitions: [] };
+  if (acceptWords(c, 'INTERVAL')) partitioning.interval = parseOperandText(c);
+  if (acceptWords(c, 'SUBPARTITION', 'BY')) partitioning.subpartitioning = parsePartitionKey(c, 'SUBPARTITIONS');
+  // Oracle SUBPARTITION TEMPLATE (...) only shapes the physical subpartitions
+  if (acceptWords(c, 'SUBPARTITION', 'TEMPLATE') && isPunct(peek(c), '(')) skipGroup(c);
+  if (isPunct(peek(c), '(') && isWord(peek(c, 1), 'PARTITION')) {
+    next(c);
+    do {
+      partitioning.partitions.push(parsePartition(c));
+    } while (acceptPunct(c, ','));
+    expectPunct(c, ')');
+  }
+  return partitioning;
+};
+
+// PostgreSQL: FOR VALUES FROM (...) TO (...) | FOR VALUES IN (...) | FOR VALUES WITH (...) | DEFAULT
+const parsePartitionBound = (c: Cursor): string => {
+  const first = peek(c);
+  if (acceptWords(c, 'DEFAULT')) return 'DEFAULT';
+  expectWords(c, 'FOR', 'VALUES');
+  if (acceptWords(c, 'FROM')) {
+    skipGroup(c);
+    expectWords(c, 'TO');
+  } else if (!acceptWords(c, 'IN')) {
+    expectWords(c, 'WITH');
+  }
+  if (!isPunct(peek(c), '(')) throw new DdlSyntaxError(`Expected '(' but found ${describe(peek(c))}`, peek(c));
+  skipGroup(c);
+  return textOf(c, first, previous(c));
+};
+
+// CREATE TABLE ... [IGNORE | REPLACE] [AS] SELECT / WITH cte AS (...) SELECT
+const atCreateTableQuery = (c: Cursor) => {
+  const offset = isWord(peek(c), 'IGNORE', 'REPLACE') ? 1 : 0;
+  return isWord(peek(c, offset), 'AS', 'SELECT') || (isWord(peek(c, offset), 'WITH') && !isPunct(peek(c, offset + 1), '('));
+};
+
+const parseTableOptions = (c: Cursor): { options: TableOptionNode[]; partitioning?: PartitioningNode } => {
+  const options: TableOptionNode[] = [];
+  let partitioning: PartitioningNode | undefined;
+  while (!atEnd(c) && !atCreateTableQuery(c)) {
+    if (acceptPunct(c, ',')) continue;
+
+    const first = peek(c);
+    if (isWord(first, 'PARTITION') && isWord(peek(c, 1), 'BY')) {
+      partitioning = parsePartitioning(c);
+      continue;
+    }
+    // Physical storage clauses (TABLESPACE, STORAGE, PCTFREE...) carry no logical meaning
+    if (!c.dialect.tableOptions) {
+      if (isPunct(first, '(')) skipGroup(c);
+      else next(c);
+      continue;
+    }
+
+    // SQLite
+    if (acceptWords(c, 'WITHOUT', 'ROWID')) {
+      options.push({ name: 'WITHOUT ROWID', value: '' });
+      continue;
+    }
+
+    acceptWords(c, 'DEFAULT');
+    let name: string;
+    if (acceptWords(c, 'CHARACTER', 'SET')) {
+      name = 'CHARACTER SET';
+    } else if (peek(c).type === TokenType.WORD) {
+      name = next(c).value.toUpperCase();
+    } else {
+      throw new DdlSyntaxError(`Unexpected ${describe(peek(c))} in table options`, peek(c));
+    }
+    acceptOperator(c, '=');
+    const value = atEnd(c) || isPunct(peek(c), ',') ? '' : parseOperandText(c, true);
+    options.push({ name, value });
+  }
+  return { options, partitioning };
+};
+
+const parseCreateTable = (c: Cursor): CreateTableStatement => {
+  const first = peek(c);
+  expectWords(c, 'CREATE');
+  while (isWord(peek(c), ...CREATE_TABLE_MODIFIERS)) next(c);
+  expectWords(c, 'TABLE');
+  acceptWords(c, 'IF', 'NOT', 'EXISTS');
+  const name = parseQualifiedName(c);
+
+  const columns: ColumnNode[] = [];
+  const constraints: TableConstraintNode[] = [];
+  if (acceptWords(c, 'PARTITION', 'OF')) {
+    const parent = parseQualifiedName(c);
+    // Column constraints of a partition are inherited from the parent
+    if (isPunct(peek(c), '(')) skipGroup(c);
+    const bound = parsePartitionBound(c);
+    const { options, partitioning } = parseTableOptions(c);
+    return {
+      kind: 'createTable', name, columns, constraints, options, partitioning,
+      partitionOf: { parent, bound }, span: spanOf(first, previous(c)),
+    };
+  }
+
+  // MySQL: CREATE TABLE t LIKE other
+  if (acceptWords(c, 'LIKE')) {
+    const like = parseQualifiedName(c);
+    return { kind: 'createTable', name, columns, constraints, options: [], like, span: spanOf(first, previous(c)) };
+  }
+
+  let like: QualifiedName | undefined;
+  const hasElements = isPunct(peek(c), '(') && !isWord(peek(c, 1), 'SELECT');
+  if (hasElements) {
+    next(c);
+    do {
+      // PostgreSQL LIKE other [INCLUDING ... | EXCLUDING ...], MySQL (LIKE other)
+      if (acceptWords(c, 'LIKE')) {
+        like = parseQualifiedName(c);
+        skipToElementEnd(c);
+      } else if (atTableConstraint(c)) {
+        constraints.push(parseTableConstraint(c));
+      } else {
+        columns.push(parseColumn(c));
+      }
+    } while (acceptPunct(c, ','));
+    expectPunct(c, ')');
+  }
+
+  const { options, partitioning } = parseTableOptions(c);
+  let query: QueryNode | undefined;
+  if (!atEnd(c)) {
+    if (!acceptWords(c, 'IGNORE')) acceptWords(c, 'REPLACE');
+    acceptWords(c, 'AS');
+    query = parseQuery(c);
+  } else if (!hasElements) {
+    throw new DdlSyntaxError(`Expected '(' but found ${describe(peek(c))}`, peek(c));
+  }
+  return { kind: 'createTable', name, columns, constraints, options, partitioning, like, query, span: spanOf(first, previous(c)) };
+};
+
+// Whether a CREATE statement defines a view, i.e. VIEW comes before anything that starts a body
+const isCreateView = (c: Cursor) => {
+  for (let offset = 1; offset < 32; offset++) {
+    const token = peek(c, offset);
+    if (isWord(token, 'VIEW')) return true;
+    if (token.type === TokenType.EOF || isPunct(token, '(') || isWord(token, 'AS', 'TABLE', 'INDEX', 'FUNCTION', 'PROCEDURE', 'TRIGGER')) return false;
+  }
+  return false;
+};
+
+const isAliasToken = (token: Token) =>
+  token.type === TokenType.QUOTED_IDENTIFIER || (token.type === TokenType.WORD && !isWord(token, ...QUERY_CLAUSE_WORDS, ...EXPRESSION_WORDS));
+
+// A FROM/JOIN item: [LATERAL|ONLY] name [[AS] alias]. Subqueries and table functions yield null and are
+// left for the caller, which scans into them.
+const parseViewSource = (c: Cursor): ViewSourceNode | null => {
+  acceptWords(c, 'LATERAL');
+  acceptWords(c, 'ONLY');
+  const token = peek(c);
+  if (token.type !== TokenType.QUOTED_IDENTIFIER && (token.type !== TokenType.WORD || isWord(token, ...QUERY_CLAUSE_WORDS))) return null;
+  const table = parseQualifiedName(c);
+  if (isPunct(peek(c), '(')) return null;
+  // Oracle/MySQL dummy table
+  if (!table.schema && table.name.toUpperCase() === 'DUAL') return null;
+  if (acceptWords(c, 'AS')) return { table, alias: parseIdentifier(c) };
+  return isAliasToken(peek(c)) ? { table, alias: next(c).value } : { table };
+};
+
+// Tables read anywhere in the query, including subqueries and CTE bodies. FROM only counts at a depth
+// where a SELECT started, which rules out EXTRACT(x FROM y) and friends. Routine bodies hold several
+// statements, so ';' and the data-changing verbs end the current SELECT. Sources outside the first
+// SELECT at the outermost depth are marked nested.
+const scanQuerySources = (c: Cursor, cteNames: Set<string>): ViewSourceNode[] => {
+  const sources: { source: ViewSourceNode; select: number }[] = [];
+  const selectDepths = new Set<number>();
+  // Depths at which a comma continues a FROM list
+  const fromDepths = new Set<number>();
+  // Depth of every SELECT in order, the SELECT open at each depth, and the depths opened by nested
+  // joins, whose sources belong to the SELECT around them
+  const selects: number[] = [];
+  const selectAt = new Map<number, number>();
+  const joinDepths = new Set<number>();
+  let depth = 0;
+  // Set when a FROM item turned out to start with '('
+  let parenthesisedSource = false;
+  while (!atEnd(c)) {
+    const token = next(c);
+    const nestedJoin = parenthesisedSource;
+    let atSource = false;
+    if (isPunct(token, '(')) {
+      depth++;
+      // Nested joins: FROM (a JOIN b ON ...) read like a FROM list of their own
+      if (nestedJoin && !isWord(peek(c), 'SELECT', 'WITH')) {
+        selectDepths.add(depth);
+        fromDepths.add(depth);
+        joinDepths.add(depth);
+        atSource = true;
+      }
+    } else if (isPunct(token, ')')) {
+      selectDepths.delete(depth);
+      fromDepths.delete(depth);
+      selectAt.delete(depth);
+      joinDepths.delete(depth);
+      depth--;
+    } else if (isWord(token, 'SELECT', 'PERFORM')) {
+      // PL/pgSQL PERFORM is a SELECT whose result is discarded
+      selectDepths.add(depth);
+      selectAt.set(depth, selects.length);
+      selects.push(depth);
+    } else if (isPunct(token, ';') || isWord(token, 'INSERT', 'UPDATE', 'DELETE', 'MERGE')) {
+      selectDepths.delete(depth);
+      fromDepths.delete(depth);
+    } else if (selectDepths.has(depth) && isWord(token, 'FROM')) {
+      fromDepths.add(depth);
+      atSource = true;
+    } else if (selectDepths.has(depth) && (isWord(token, 'JOIN', 'STRAIGHT_JOIN', 'APPLY') || (fromDepths.has(depth) && isPunct(token, ',')))) {
+      atSource = true;
+    } else if (isWord(token, 'WHERE', 'GROUP', 'ORDER', 'HAVING', 'LIMIT', 'UNION', 'INTERSECT', 'EXCEPT', 'MINUS', 'WINDOW', 'CONNECT', 'START', 'FOR')) {
+      fromDepths.delete(depth);
+    }
+
+    const source = atSource ? parseViewSource(c) : null;
+    parenthesisedSource = atSource && isPunct(peek(c), '(');
+    if (source && !(source.table.schema === undefined && cteNames.has(source.table.name.toLowerCase()))) {
+      let owner = depth;
+      while (joinDepths.has(owner)) owner--;
+      sources.push({ source, select: selectAt.get(owner) ?? -1 });
+    }
+  }
+  const main = selects.indexOf(Math.min(...selects));
+  return sources.map(({ source, select }) => (select === main ? source : { ...source, nested: true }));
+};
+
+// Names a select list item the way the database would: alias, column name, or the expression text
+const toViewColumn = (c: Cursor, tokens: Token[]): ViewColumnNode | null => {
+  if (tokens.length === 0) return null;
+  const last = tokens[tokens.length - 1];
+  if (isOperator(last, '*')) {
+    if (tokens.length === 1) return { kind: 'star' };
+    if (tokens.length === 3 && isPunct(tokens[1], '.')) return { kind: 'star', qualifier: tokens[0].value };
+  }
+
+  let name: string | undefined;
+  let expression = tokens;
+  const beforeLast = tokens[tokens.length - 2];
+  if (tokens.length > 2 && isAliasToken(tokens[0]) && isOperator(tokens[1], '=')) {
+    // SQL Server: alias = expression
+    name = tokens[0].value;
+    expression = tokens.slice(2);
+  } else if (tokens.length > 2 && isWord(beforeLast, 'AS')) {
+    name = last.value;
+    expression = tokens.slice(0, -2);
+  } else if (tokens.length > 1 && isAliasToken(last) && !isPunct(beforeLast, '.') && beforeLast.type !== TokenType.OPERATOR
+    && !isWord(beforeLast, ...EXPRESSION_WORDS)) {
+    // Implicit alias: count(*) cnt, a.b bb
+    name = last.value;
+    expression = tokens.slice(0, -1);
+  }
+
+  const text = c.sql.substring(expression[0].start, expression[expression.length - 1].end);
+  // col, t.col or s.t.col
+  const isReference = expression.length % 2 === 1 && expression.length <= 5
+    && expression.every((token, i) => (i % 2 === 0 ? isAliasToken(token) : isPunct(token, '.')));
+  if (isReference) {
+    const column = expression[expression.length - 1].value;
+    const qualifier = expression.length > 1 ? expression[expression.length - 3].value : undefined;
+    return { kind: 'column', name: name ?? column, expression: text, reference: qualifier ? { qualifier, column } : { column } };
+  }
+  return { kind: 'column', name: name ?? text, expression: text };
+};
+
+// Reads the select list of the SELECT at the cursor; anything else (VALUES, TABLE t) yields no columns
+const parseSelectList = (c: Cursor): ViewColumnNode[] => {
+  let depth = 0;
+  while (acceptPunct(c, '(')) depth++;
+  if (!acceptWords(c, 'SELECT')) return [];
+  while (isWord(peek(c), ...SELECT_MODIFIERS)) {
+    next(c);
+    // PostgreSQL DISTINCT ON (...)
+    if (isWord(previous(c), 'DISTINCT') && acceptWords(c, 'ON') && isPunct(peek(c), '(')) skipGroup(c);
+  }
+  // SQL Server TOP n [PERCENT] [WITH TIES]
+  if (acceptWords(c, 'TOP')) {
+    if (isPunct(peek(c), '(')) skipGroup(c);
+    else next(c);
+    acceptWords(c, 'PERCENT');
+    acceptWords(c, 'WITH', 'TIES');
+  }
+
+  const columns: ViewColumnNode[] = [];
+  let item: Token[] = [];
+  for (;;) {
+    const token = peek(c);
+    const endsList = token.type === TokenType.EOF || (depth > 0 && isPunct(token, ')'))
+      || isWord(token, 'FROM', 'INTO', 'WHERE', 'GROUP', 'ORDER', 'LIMIT', 'UNION', 'INTERSECT', 'EXCEPT', 'MINUS');
+    if (endsList || isPunct(token, ',')) {
+      const column = toViewColumn(c, item);
+      if (column) columns.push(column);
+      item = [];
+      if (endsList) return columns;
+      next(c);
+    } else if (isPunct(token, '(')) {
+      // Keep the group as its first and last token; only their offsets matter
+      item.push(token, skipGroup(c));
+    } else {
+      item.push(next(c));
+    }
+  }
+};
+
+// Reads the query at the cursor up to the end of the statement
+const parseQuery = (c: Cursor): QueryNode => {
+  // WITH [RECURSIVE] name [(cols)] AS [[NOT] MATERIALIZED] (query), ...
+  const queryStart = c.pos;
+  const cteNames = new Set<string>();
+  if (acceptWords(c, 'WITH')) {
+    acceptWords(c, 'RECURSIVE');
+    do {
+      cteNames.add(parseIdentifier(c).toLowerCase());
+      if (isPunct(peek(c), '(')) skipGroup(c);
+      expectWords(c, 'AS');
+      if (!acceptWords(c, 'NOT', 'MATERIALIZED')) acceptWords(c, 'MATERIALIZED');
+      if (!isPunct(peek(c), '(')) throw new DdlSyntaxError(`Expected '(' but found ${describe(peek(c))}`, peek(c));
+      skipGroup(c);
+    } while (acceptPunct(c, ','));
+  }
+  const columns = parseSelectList(c);
+  c.pos = queryStart;
+  const sources = scanQuerySources(c, cteNames);
+  c.pos = c.tokens.length - 1;
+  return { columns, sources };
+};
+
+const parseCreateView = (c: Cursor): CreateViewStatement => {
+  const first = peek(c);
+  expectWords(c, 'CREATE');
+  // OR REPLACE, ALGORITHM = ..., DEFINER = ..., SQL SECURITY ..., FORCE, MATERIALIZED, ...
+  while (!atEnd(c) && !isWord(peek(c), 'VIEW')) next(c);
+  expectWords(c, 'VIEW');
+  acceptWords(c, 'IF', 'NOT', 'EXISTS');
+  const name = parseQualifiedName(c);
+  const columnNames: string[] = [];
+  if (acceptPunct(c, '(')) {
+    do {
+      columnNames.push(parseIdentifier(c));
+    } while (acceptPunct(c, ','));
+    expectPunct(c, ')');
+  }
+  // WITH (options), WITH SCHEMABINDING, ...
+  while (!atEnd(c) && !isWord(peek(c), 'AS')) {
+    if (isPunct(peek(c), '(')) skipGroup(c);
+    else next(c);
+  }
+  expectWords(c, 'AS');
+  const { columns, sources } = parseQuery(c);
+  return { kind: 'createView', name, columnNames, columns, sources, span: spanOf(first, previous(c)) };
+};
+
+// The TRIGGER/PROCEDURE/FUNCTION word of a CREATE statement, skipping OR REPLACE, DEFINER = user
+// and the like; undefined for any other statement
+const routineWord = (tokens: Token[]) => {
+  // An empty statement, e.g. between ';;'
+  if (tokens.length === 0 || !isWord(tokens[0], 'CREATE')) return undefined;
+  for (let i = 1; i < Math.min(tokens.length, 32); i++) {
+    const token = tokens[i];
+    if (isWord(token, ...ROUTINE_WORDS)) return token;
+    if (token.type === TokenType.EOF || isPunct(token, '(') || isWord(token, 'AS', 'TABLE', 'VIEW', 'INDEX')) return undefined;
+  }
+  return undefined;
+};
+
+// A table name after INSERT INTO, UPDATE, CALL...; T-SQL table variables are skipped
+const parseTarget = (c: Cursor): QualifiedName | null => {
+  const token = peek(c);
+  if (token.type !== TokenType.QUOTED_IDENTIFIER && (token.type !== TokenType.WORD || token.value.startsWith('@'))) return null;
+  return parseQualifiedName(c);
+};
+
+// Targets of the data-changing statements in a routine body, and the routines it runs
+const scanRoutineTargets = (c: Cursor) => {
+  const writes: QualifiedName[] = [];
+  const calls: QualifiedName[] = [];
+  const push = (list: QualifiedName[], name: QualifiedName | null) => {
+    if (name) list.push(name);
+  };
+  while (!atEnd(c)) {
+    const before = previous(c);
+    const token = next(c);
+    if (isWord(token, 'INSERT', 'DELETE')) {
+      // ON DELETE CASCADE, BEFORE INSERT OR DELETE
+      if (isWord(before, 'ON', 'OR', 'BEFORE', 'AFTER', 'OF')) continue;
+      while (isWord(peek(c), ...DML_MODIFIERS)) next(c);
+      // Oracle INSERT ALL/FIRST INTO ...; only the first target is taken
+      if (isWord(token, 'INSERT') && !acceptWords(c, 'ALL')) acceptWords(c, 'FIRST');
+      if (!acceptWords(c, 'INTO')) acceptWords(c, 'FROM');
+      while (isWord(peek(c), ...DML_MODIFIERS)) next(c);
+      push(writes, parseTarget(c));
+    } else if (isWord(token, 'UPDATE')) {
+      // ON DUPLICATE KEY UPDATE, ON CONFLICT DO UPDATE, SELECT ... FOR UPDATE, T-SQL IF UPDATE(column)
+      if (isWord(before, 'KEY', 'DO', 'FOR', 'ON', 'OR', 'BEFORE', 'AFTER') || isPunct(peek(c, 1), '(')) continue;
+      while (isWord(peek(c), ...DML_MODIFIERS)) next(c);
+      push(writes, parseTarget(c));
+    } else if ((isWord(token, 'REPLACE') && isWord(peek(c), 'INTO')) || isWord(token, 'MERGE')) {
+      acceptWords(c, 'INTO');
+      push(writes, parseTarget(c));
+    } else if (isWord(token, 'TRUNCATE')) {
+      acceptWords(c, 'TABLE');
+      push(writes, parseTarget(c));
+    } else if (isWord(token, 'CALL', 'EXEC')) {
+      push(calls, parseTarget(c));
+    } else if (isWord(token, 'EXECUTE')) {
+      // PostgreSQL trigger: EXECUTE FUNCTION f(); T-SQL: EXECUTE proc
+      if (!acceptWords(c, 'FUNCTION')) acceptWords(c, 'PROCEDURE');
+      push(calls, parseTarget(c));
+    }
+  }
+  return { writes, calls };
+};
+
+// Tokens of the routine body. PostgreSQL quotes it (AS $$ ... $$ or AS '...'), so it is lexed on its own.
+const routineBody = (c: Cursor): Cursor => {
+  if (!c.dialect.lexer.dollarQuotes) return c;
+  const index = c.tokens.findIndex((token, i) => i >= c.pos && token.type === TokenType.STRING && isWord(c.tokens[i - 1], 'AS'));
+  if (index === -1) return c;
+  const body = c.tokens[index].value;
+  try {
+    return { sql: body, tokens: [...scanTokens(body, c.dialect.lexer)], pos: 0, dialect: c.dialect };
+  } catch (e) {
+    if (!(e instanceof SqlLexError)) throw e;
+    // A body in another language, e.g. plpython
+    return { sql: '', tokens: [c.tokens[c.tokens.length - 1]], pos: 0, dialect: c.dialect };
+  }
+};
+
+const parseCreateRoutine = (c: Cursor): CreateRoutineStatement => {
+  const first = peek(c);
+  expectWords(c, 'CREATE');
+  while (!atEnd(c) && !isWord(peek(c), ...ROUTINE_WORDS)) next(c);
+  const word = next(c).value.toUpperCase();
+  const routineKind = word === 'TRIGGER' ? 'trigger' : word === 'FUNCTION' ? 'function' : 'procedure';
+  acceptWords(c, 'IF', 'NOT', 'EXISTS');
+  const name = parseQualifiedName(c);
+
+  let table: QualifiedName | undefined;
+  let event: string | undefined;
+  if (routineKind === 'trigger') {
+    // BEFORE INSERT OR UPDATE OF a, b ON t (MySQL, PostgreSQL, Oracle, SQLite)
+    const eventStart = c.pos;
+    while (!atEnd(c) && !isWord(peek(c), 'ON')) next(c);
+    if (c.pos > eventStart) event = textOf(c, c.tokens[eventStart], previous(c));
+    expectWords(c, 'ON');
+    // Oracle and SQL Server DDL triggers fire on the database or schema, not a table
+    if (!isWord(peek(c), 'DATABASE', 'SCHEMA', 'ALL') || isPunct(peek(c, 1), '.')) table = parseQualifiedName(c);
+    // SQL Server: ON t AFTER INSERT, UPDATE AS ...
+    if (!event && isWord(peek(c), 'FOR', 'AFTER', 'INSTEAD')) {
+      const timingStart = peek(c);
+      while (!atEnd(c) && !isWord(peek(c, 1), 'AS')) next(c);
+      event = textOf(c, timingStart, next(c));
+    }
+    event = event?.replace(/\s+/g, ' ');
+  }
+
+  const body = routineBody(c);
+  const bodyStart = body.pos;
+  const reads = scanQuerySources(body, new Set()).map(source => source.table);
+  body.pos = bodyStart;
+  const { writes, calls } = scanRoutineTargets(body);
+  const last = c.tokens[c.tokens.length - 2];
+  c.pos = c.tokens.length - 1;
+  return { kind: 'createRoutine', routineKind, name, table, event, reads, writes, calls, span: spanOf(first, last) };
+};
+
+const parseDrop = (c: Cursor): DropStatement | UnknownStatement => {
+  const first = peek(c);
+  expectWords(c, 'DROP');
+  // MySQL DROP TEMPORARY TABLE, PostgreSQL DROP MATERIALIZED VIEW
+  if (!acceptWords(c, 'TEMPORARY')) acceptWords(c, 'MATERIALIZED');
+  const target = peek(c).type === TokenType.WORD ? DROP_TARGETS[peek(c).value.toUpperCase()] : undefined;
+  // DROP INDEX, DROP SEQUENCE, DROP DATABASE...
+  if (!target) return unknownStatement(c);
+  next(c);
+  acceptWords(c, 'IF', 'EXISTS');
+  const names: QualifiedName[] = [];
+  do {
+    names.push(parseQualifiedName(c));
+    // PostgreSQL DROP FUNCTION f(integer)
+    if (isPunct(peek(c), '(')) skipGroup(c);
+  } while (acceptPunct(c, ','));
+  // CASCADE [CONSTRAINTS], RESTRICT, PURGE, SQL Server DROP TRIGGER ... ON DATABASE
+  const last = c.tokens[c.tokens.length - 2];
+  c.pos = c.tokens.length - 1;
+  return { kind: 'drop', target, names, span: spanOf(first, last) };
+};
+
+const parseColumnPosition = (c: Cursor): ColumnPositionNode | undefined => {
+  if (acceptWords(c, 'FIRST')) return { first: true };
+  if (acceptWords(c, 'AFTER')) return { after: parseIdentifier(c) };
+  return undefined;
+};
+
+const parseAlterColumnChange = (c: Cursor): AlterColumnChangeNode => {
+  if (acceptWords(c, 'SET', 'DEFAULT')) return { kind: 'setDefault', expression: parseOperandText(c) };
+  if (acceptWords(c, 'DROP', 'DEFAULT')) return { kind: 'dropDefault' };
+  if (acceptWords(c, 'SET', 'NOT', 'NULL')) return { kind: 'setNotNull' };
+  if (acceptWords(c, 'DROP', 'NOT', 'NULL')) return { kind: 'dropNotNull' };
+  if (acceptWords(c, 'SET', 'DATA', 'TYPE') || acceptWords(c, 'TYPE')) {
+    const dataType = parseDataType(c);
+    // COLLATE / USING expression
+    skipToElementEnd(c);
+    return { kind: 'setType', dataType };
+  }
+  if (isWord(peek(c), 'ADD') && isWord(peek(c, 1), 'GENERATED')) {
+    skipToElementEnd(c);
+    return { kind: 'setIdentity' };
+  }
+  const first = peek(c);
+  skipToElementEnd(c);
+  return { kind: 'unknown', text: textOf(c, first, previous(c)) };
+};
+
+const parseAlterAction = (c: Cursor): AlterActionNode[] => {
+  const first = peek(c);
+  const span = () => spanOf(first, previous(c));
+
+  if (isWord(peek(c), 'PARTITION') && isWord(peek(c, 1), 'BY')) {
+    return [{ kind: 'partitionBy', partitioning: parsePartitioning(c), span: span() }];
+  }
+  if (acceptWords(c, 'REMOVE', 'PARTITIONING')) return [{ kind: 'removePartitioning', span: span() }];
+  // MySQL: ADD PARTITION (PARTITION p ..., ...); Oracle: ADD PARTITION p ...
+  if (isWord(peek(c), 'ADD') && isWord(peek(c, 1), 'PARTITION')) {
+    next(c);
+    if (!isPunct(peek(c, 1), '(')) return [{ kind: 'addPartitions', partitions: [parsePartition(c)], span: span() }];
+    next(c);
+    next(c);
+    const partitions: PartitionNode[] = [];
+    do {
+      partitions.push(parsePartition(c));
+    } while (acceptPunct(c, ','));
+    expectPunct(c, ')');
+    return [{ kind: 'addPartitions', partitions, span: span() }];
+  }
+  if (acceptWords(c, 'ATTACH', 'PARTITION')) {
+    const partitionName = parseQualifiedName(c).name;
+    return [{ kind: 'addPartitions', partitions: [{ name: partitionName, bound: parsePartitionBound(c) }], span: span() }];
+  }
+  if (acceptWords(c, 'DROP', 'PARTITION') || acceptWords(c, 'DETACH', 'PARTITION')) {
+    const names: string[] = [];
+    do {
+      names.push(parseQualifiedName(c).name);
+    } while (acceptPunct(c, ','));
+    // CONCURRENTLY / FINALIZE / UPDATE INDEXES
+    c.pos = c.tokens.length - 1;
+    return [{ kind: 'dropPartitions', names, span: span() }];
+  }
+
+  if (acceptWords(c, 'ADD')) {
+    if (atTableConstraint(c) || isWord(peek(c), 'DEFAULT')) {
+      const constraint = parseTableConstraint(c);
+      return [{ kind: 'addConstraint', constraint, span: span() }];
+    }
+    acceptWords(c, 'COLUMN');
+    acceptWords(c, 'IF', 'NOT', 'EXISTS');
+    // ADD (col1 def, col2 def)
+    if (acceptPunct(c, '(')) {
+      const actions: AlterActionNode[] = [];
+      do {
+        actions.push({ kind: 'addColumn', column: parseColumn(c), span: span() });
+      } while (acceptPunct(c, ','));
+      expectPunct(c, ')');
+      return actions;
+    }
+    const column = parseColumn(c);
+    return [{ kind: 'addColumn', column, position: parseColumnPosition(c), span: span() }];
+  }
+
+  if (acceptWords(c, 'DROP')) {
+    if (acceptWords(c, 'PRIMARY', 'KEY')) return [{ kind: 'dropPrimaryKey', span: span() }];
+    if (acceptWords(c, 'INDEX') || acceptWords(c, 'KEY')) return [{ kind: 'dropIndex', name: parseIdentifier(c), span: span() }];
+    if (acceptWords(c, 'FOREIGN', 'KEY')) return [{ kind: 'dropForeignKey', name: parseIdentifier(c), span: span() }];
+    // MySQL: DROP CHECK name
+    if (acceptWords(c, 'CONSTRAINT') || acceptWords(c, 'CHECK')) {
+      acceptWords(c, 'IF', 'EXISTS');
+      const name = parseIdentifier(c);
+      skipToElementEnd(c);
+      return [{ kind: 'dropConstraint', name, span: span() }];
+    }
+    acceptWords(c, 'COLUMN');
+    acceptWords(c, 'IF', 'EXISTS');
+    const column = parseIdentifier(c);
+    // Trailing CASCADE / RESTRICT
+    skipToElementEnd(c);
+    return [{ kind: 'dropColumn', column, span: span() }];
+  }
+
+  if (acceptWords(c, 'MODIFY')) {
+    acceptWords(c, 'COLUMN');
+    // Oracle: MODIFY (col1 NOT NULL, col2 VARCHAR2(20))
+    if (acceptPunct(c, '(')) {
+      const actions: AlterActionNode[] = [];
+      do {
+        actions.push({ kind: 'modifyColumn', column: parseColumn(c), span: span() });
+      } while (acceptPunct(c, ','));
+      expectPunct(c, ')');
+      return actions;
+    }
+    const column = parseColumn(c);
+    return [{ kind: 'modifyColumn', column, position: parseColumnPosition(c), span: span() }];
+  }
+
+  if (acceptWords(c, 'CHANGE')) {
+    acceptWords(c, 'COLUMN');
+    const oldName = parseIdentifier(c);
+    const column = parseColumn(c);
+    return [{ kind: 'changeColumn', oldName, column, position: parseColumnPosition(c), span: span() }];
+  }
+
+  if (isWord(peek(c), 'ALTER') && !isWord(peek(c, 1), 'INDEX', 'CONSTRAINT', 'CHECK')) {
+    next(c);
+    acceptWords(c, 'COLUMN');
+    const columnStart = c.pos;
+    const column = parseIdentifier(c);
+    // SQL Server restates the whole column: ALTER COLUMN c int NOT NULL
+    if (!isWord(peek(c), 'SET', 'DROP', 'TYPE', 'ADD')) {
+      c.pos = columnStart;
+      return [{ kind: 'modifyColumn', column: parseColumn(c), span: span() }];
+    }
+    return [{ kind: 'alterColumn', column, change: parseAlterColumnChange(c), span: span() }];
+  }
+
+  if (acceptWords(c, 'RENAME', 'COLUMN')) {
+    const oldName = parseIdentifier(c);
+    expectWords(c, 'TO');
+    return [{ kind: 'renameColumn', oldName, newName: parseIdentifier(c), span: span() }];
+  }
+
+  if (isWord(peek(c), 'RENAME') && !isWord(peek(c, 1), 'INDEX', 'KEY', 'CONSTRAINT')) {
+    next(c);
+    if (!acceptWords(c, 'TO')) acceptWords(c, 'AS');
+    return [{ kind: 'renameTable', newName: parseQualifiedName(c), span: span() }];
+  }
+
+  // Table options such as COMMENT = '...' or ENGINE = InnoDB
+  if (first.type === TokenType.WORD && (isWord(first, 'COMMENT') || peek(c, 1).value === '=')) {
+    const name = next(c).value.toUpperCase();
+    acceptOperator(c, '=');
+    return [{ kind: 'option', option: { name, value: parseOperandText(c, true) }, span: span() }];
+  }
+
+  skipToElementEnd(c);
+  return [{ kind: 'unknown', text: textOf(c, first, previous(c)), span: span() }];
+};
+
+const parseAlterTable = (c: Cursor): AlterTableStatement => {
+  const first = peek(c);
+  expectWords(c, 'ALTER');
+  acceptWords(c, 'ONLINE');
+  acceptWords(c, 'IGNORE');
+  expectWords(c, 'TABLE');
+  acceptWords(c, 'IF', 'EXISTS');
+  acceptWords(c, 'ONLY');
+  const name = parseQualifiedName(c);
+  // SQL Server: WITH CHECK / WITH NOCHECK ADD CONSTRAINT ...
+  if (!acceptWords(c, 'WITH', 'CHECK')) acceptWords(c, 'WITH', 'NOCHECK');
+
+  const actions: AlterActionNode[] = [];
+  if (!atEnd(c)) {
+    do {
+      actions.push(...parseAlterAction(c));
+      // MySQL partition options follow the last action without a comma
+    } while (acceptPunct(c, ',') || (isWord(peek(c), 'PARTITION') && isWord(peek(c, 1), 'BY')) || (isWord(peek(c), 'REMOVE') && isWord(peek(c, 1), 'PARTITIONING')));
+  }
+  if (!atEnd(c)) {
+    throw new DdlSyntaxError(`Unexpected ${describe(peek(c))} in ALTER TABLE`, peek(c));
+  }
+  return { kind: 'alterTable', name, actions, span: spanOf(first, previous(c)) };
+};
+
+// CREATE [UNIQUE] INDEX [CONCURRENTLY] [IF NOT EXISTS] [name] ON [ONLY] table [USING method] (parts)
+const parseCreateIndex = (c: Cursor): CreateIndexStatement => {
+  const first = peek(c);
+  expectWords(c, 'CREATE');
+  const unique = acceptWords(c, 'UNIQUE');
+  let method: string | undefined;
+  if (isWord(peek(c), 'FULLTEXT', 'SPATIAL', 'CLUSTERED', 'NONCLUSTERED')) method = next(c).value.toUpperCase();
+  expectWords(c, 'INDEX');
+  acceptWords(c, 'CONCURRENTLY');
+  acceptWords(c, 'IF', 'NOT', 'EXISTS');
+  const name = isWord(peek(c), 'ON') ? undefined : parseQualifiedName(c).name;
+  expectWords(c, 'ON');
+  acceptWords(c, 'ONLY');
+  const table = parseQualifiedName(c);
+  if (acceptWords(c, 'USING')) method = next(c).value.toUpperCase();
+  const columns = parseKeyParts(c);
+  if (acceptWords(c, 'USING')) method = next(c).value.toUpperCase();
+  // INCLUDE, WHERE, WITH and similar trailing clauses are ignored
+  c.pos = c.tokens.length - 1;
+  return { kind: 'createIndex', name, table, unique, columns, method, span: spanOf(first, previous(c)) };
+};
+
+// COMMENT ON TABLE t IS '...' / COMMENT ON COLUMN t.c IS '...'
+const parseComment = (c: Cursor): CommentStatement => {
+  const first = peek(c);
+  expectWords(c, 'COMMENT', 'ON');
+  const target = acceptWords(c, 'TABLE') ? 'table' : acceptWords(c, 'COLUMN') ? 'column' : null;
+  if (!target) {
+    throw new DdlSyntaxError(`Unsupported COMMENT ON target ${describe(peek(c))}`, peek(c));
+  }
+  const parts = [parseIdentifier(c)];
+  while (acceptPunct(c, '.')) parts.push(parseIdentifier(c));
+  const column = target === 'column' ? parts.pop() : undefined;
+  if (parts.length === 0) {
+    throw new DdlSyntaxError('COMMENT ON COLUMN requires a table-qualified column name', first);
+  }
+  const table: QualifiedName = { name: parts[parts.length - 1] };
+  if (parts.length > 1) table.schema = parts[parts.length - 2];
+
+  expectWords(c, 'IS');
+  const token = next(c);
+  if (token.type !== TokenType.STRING && !isWord(token, 'NULL')) {
+    throw new DdlSyntaxError(`Expected comment string but found ${describe(token)}`, token);
+  }
+  const text = token.type === TokenType.STRING ? token.value : '';
+  return { kind: 'comment', target, table, column, text, span: spanOf(first, previous(c)) };
+};
+
+// USE db | SET search_path {TO|=} schema[, ...]; the first search path entry other than "$user" wins
+const parseUse = (c: Cursor): UseStatement => {
+  const first = peek(c);
+  if (acceptWords(c, 'USE')) {
+    const schema = parseIdentifier(c);
+    return { kind: 'use', schema, span: spanOf(first, previous(c)) };
+  }
+  expectWords(c, 'SET', 'SEARCH_PATH');
+  if (!acceptWords(c, 'TO')) acceptOperator(c, '=');
+  let schema = '';
+  do {
+    const token = next(c);
+    if (token.type === TokenType.EOF) break;
+    if (!schema && token.value !== '$user') schema = token.value;
+  } while (acceptPunct(c, ','));
+  return { kind: 'use', schema, span: spanOf(first, previous(c)) };
+};
+
+// One parenthesised VALUES row
+const parseValueRow = (c: Cursor): (string | null)[] => {
+  expectPunct(c, '(');
+  const values: (string | null)[] = [];
+  if (acceptPunct(c, ')')) return values;
+  do {
+    const first = peek(c);
+    while (!atEnd(c) && !isPunct(peek(c), ',') && !isPunct(peek(c), ')')) {
+      if (isPunct(peek(c), '(')) skipGroup(c);
+      else next(c);
+    }
+    if (peek(c) === first) throw new DdlSyntaxError(`Expected a value but found ${describe(first)}`, first);
+    const last = previous(c);
+    if (first === last && isWord(first, 'NULL')) values.push(null);
+    else if (first === last && first.type === TokenType.STRING) values.push(first.value);
+    else values.push(textOf(c, first, last));
+  } while (acceptPunct(c, ','));
+  expectPunct(c, ')');
+  return values;
+};
+
+const parseInsert = (c: Cursor): InsertStatement | UnknownStatement => {
+  const first = peek(c);
+  next(c);
+  // MySQL modifiers; REPLACE INTO takes the same form
+  while (isWord(peek(c), 'LOW_PRIORITY', 'DELAYED', 'HIGH_PRIORITY', 'IGNORE')) next(c);
+  acceptWords(c, 'INTO');
+  const table = parseQualifiedName(c);
+  // PostgreSQL: INSERT INTO t AS alias
+  if (acceptWords(c, 'AS')) parseIdentifier(c);
+  let columns: string[] | undefined;
+  if (isPunct(peek(c), '(') && !isWord(peek(c, 1), 'SELECT')) {
+    next(c);
+    columns = [];
+    do {
+      columns.push(parseIdentifier(c));
+    } while (acceptPunct(c, ','));
+    expectPunct(c, ')');
+  }
+  // INSERT ... SELECT, INSERT ... SET, DEFAULT VALUES
+  if (!acceptWords(c, 'VALUES') && !acceptWords(c, 'VALUE')) return unknownStatement(c);
+  const rows: (string | null)[][] = [];
+  do {
+    rows.push(parseValueRow(c));
+  } while (acceptPunct(c, ','));
+  // ON DUPLICATE KEY UPDATE, ON CONFLICT, RETURNING
+  const last = c.tokens[c.tokens.length - 2];
+  c.pos = c.tokens.length - 1;
+  return { kind: 'insert', table, columns, rows, span: spanOf(first, last) };
+};
+
+const unknownStatement = (c: Cursor): UnknownStatement => {
+  const first = c.tokens[0];
+  const last = c.tokens[c.tokens.length - 2];
+  c.pos = c.tokens.length - 1;
+  return { kind: 'unknown', text: textOf(c, first, last), span: spanOf(first, last) };
+};
+
+// Parameter order of sp_addextendedproperty when called positionally
+const EXTENDED_PROPERTY_PARAMS = ['@name', '@value', '@level0type', '@level0name', '@level1type', '@level1name', '@level2type', '@level2name'];
+
+// SQL Server keeps descriptions as MS_Description extended properties:
+// EXEC sys.sp_addextendedproperty @name=N'MS_Description', @value=N'...', @level0type=N'SCHEMA', ...
+const parseExtendedProperty = (c: Cursor): CommentStatement | UnknownStatement => {
+  const first = peek(c);
+  next(c);
+  const procedure = parseQualifiedName(c).name.toLowerCase();
+  if (procedure !== 'sp_addextendedproperty' && procedure !== 'sp_updateextendedproperty') {
+    return unknownStatement(c);
+  }
+
+  const args = new Map<string, string>();
+  let position = 0;
+  while (!atEnd(c)) {
+    let param = EXTENDED_PROPERTY_PARAMS[position];
+    if (peek(c).type === TokenType.WORD && peek(c).value.startsWith('@') && isOperator(peek(c, 1), '=')) {
+      param = next(c).value.toLowerCase();
+      next(c);
+    }
+    const token = next(c);
+    if (param) args.set(param, token.value);
+    position++;
+    acceptPunct(c, ',');
+  }
+
+  const level1type = args.get('@level1type')?.toUpperCase();
+  const level2type = args.get('@level2type')?.toUpperCase();
+  const tableName = args.get('@level1name');
+  if (args.get('@name') !== 'MS_Description' || level1type !== 'TABLE' || !tableName) {
+    return unknownStatement(c);
+  }
+  if (level2type && level2type !== 'COLUMN') {
+    return unknownStatement(c);
+  }
+
+  const table: QualifiedName = { name: tableName };
+  const schema = args.get('@level0name');
+  if (schema) table.schema = schema;
+  return {
+    kind: 'comment',
+    target: level2type ? 'column' : 'table',
+    table,
+    column: level2type ? args.get('@level2name') : undefined,
+    text: args.get('@value') ?? '',
+    span: spanOf(first, previous(c)),
+  };
+};
+
+const parseStatement = (c: Cursor): DdlStatement => {
+  if (isWord(peek(c), 'CREATE')) {
+    let offset = 1;
+    while (isWord(peek(c, offset), ...CREATE_TABLE_MODIFIERS)) offset++;
+    if (isWord(peek(c, offset), 'TABLE')) return parseCreateTable(c);
+    if (isWord(peek(c, 1), 'INDEX', 'UNIQUE', 'FULLTEXT', 'SPATIAL', 'CLUSTERED', 'NONCLUSTERED')) return parseCreateIndex(c);
+    if (isCreateView(c)) return parseCreateView(c);
+    if (routineWord(c.tokens)) return parseCreateRoutine(c);
+  }
+  if (isWord(peek(c), 'DROP')) {
+    return parseDrop(c);
+  }
+  if (isWord(peek(c), 'EXEC', 'EXECUTE')) {
+    return parseExtendedProperty(c);
+  }
+  if (isWord(peek(c), 'COMMENT') && isWord(peek(c, 1), 'ON')) {
+    return parseComment(c);
+  }
+  if (isWord(peek(c), 'ALTER') && (isWord(peek(c, 1), 'TABLE') || isWord(peek(c, 2), 'TABLE'))) {
+    return parseAlterTable(c);
+  }
+  if (isWord(peek(c), 'USE') || (isWord(peek(c), 'SET') && isWord(peek(c, 1), 'SEARCH_PATH'))) {
+    return parseUse(c);
+  }
+  if (isWord(peek(c), 'INSERT') || (isWord(peek(c), 'REPLACE') && isWord(peek(c, 1), 'INTO'))) {
+    return parseInsert(c);
+  }
+  return unknownStatement(c);
+};
+
+// Token stream with a few tokens of lookahead, so statements can be split without
+// holding the whole script in memory. Past the end it keeps returning the EOF token.
+interface TokenWindow {
+  previous?: Token;
+  peek: (offset?: number) => Token;
+  advance: () => Token;
+}
+
+const tokenWindow = (tokens: Iterator<Token>): TokenWindow => {
+  const buffer: Token[] = [];
+  const window: TokenWindow = {
+    peek: (offset = 0) => {
+      while (buffer.length <= offset) {
+        const result = tokens.next();
+        if (result.done) return buffer[buffer.length - 1];
+        buffer.push(result.value);
+      }
+      return buffer[offset];
+    },
+    advance: () => {
+      const token = window.peek();
+      if (buffer.length > 1 || token.type !== TokenType.EOF) buffer.shift();
+      window.previous = token;
+      return token;
+    },
+  };
+  return window;
+};
+
+const startsLine = (w: TokenWindow) => !w.previous || w.previous.line < w.peek().line;
+const endsLine = (w: TokenWindow, offset: number) =>
+  w.peek(offset + 1).type === TokenType.EOF || w.peek(offset + 1).line > w.peek(offset).line;
+
+// A '/' alone on its line ends a statement in Oracle scripts (SQL*Plus)
+const isSlashTerminator = (w: TokenWindow) => isOperator(w.peek(), '/') && startsLine(w) && endsLine(w, 0);
+
+// SQL Server batch separator: GO [count] on its own line
+const isBatchSeparator = (w: TokenWindow) =>
+  isWord(w.peek(), 'GO') && startsLine(w)
+    && (endsLine(w, 0) || (w.peek(1).type === TokenType.NUMBER && endsLine(w, 1)));
+
+// Number of tokens that make up the statement separator at the cursor, 0 when there is none
+const separatorLength = (w: TokenWindow, dialect: DialectConfig) => {
+  if (isPunct(w.peek(), ';') || (dialect.slashTerminator && isSlashTerminator(w))) return 1;
+  if (dialect.batchSeparator && isBatchSeparator(w)) {
+    // GO n repeats the batch; the count is part of the separator
+    return w.peek(1).type === TokenType.NUMBER && w.peek(1).line === w.peek().line ? 2 : 1;
+  }
+  return 0;
+};
+
+// Same for a DELIMITER-defined terminator such as ;; or $$, which may span several adjacent tokens
+const delimiterLength = (w: TokenWindow, delimiter: string) => {
+  let text = '';
+  let count = 0;
+  while (text.length < delimiter.length) {
+    const token = w.peek(count);
+    if (token.type === TokenType.EOF || (count > 0 && token.start !== w.peek(count - 1).end)) return 0;
+    text += token.value;
+    count++;
+  }
+  return text === delimiter ? count : 0;
+};
+
+// Whether a ';' belongs to the body of the routine being created rather than ending it. Oracle and
+// SQL Server routines run to the next '/' or GO; SQLite triggers to the END matching their BEGIN.
+const continuesRoutine = (current: Token[], dialect: DialectConfig) => {
+  if (!routineWord(current)) return false;
+  if (dialect.slashTerminator || dialect.batchSeparator) return true;
+  if (!dialect.triggerBlocks) return false;
+  const depth = current.reduce((sum, token) => sum + (isWord(token, 'BEGIN', 'CASE') ? 1 : isWord(token, 'END') ? -1 : 0), 0);
+  return depth > 0;
+};
+
+// Closes a statement with an EOF token placed right after its last token
+const endStatement = (tokens: Token[], separator: Token): Token[] => {
+  const last = tokens[tokens.length - 1];
+  return [...tokens, { ...separator, type: TokenType.EOF, value: '', start: last.end, end: last.end }];
+};
+
+// Groups tokens into statements on ';' (or the dialect's other separators), each terminated by its own EOF token
+function* splitStatements(tokens: Iterator<Token>, dialect: DialectConfig): Generator<Token[]> {
+  const w = tokenWindow(tokens);
+  let current: Token[] = [];
+  // Changed by the mysql client's DELIMITER command, e.g. around trigger and procedure bodies
+  let delimiter = ';';
+  for (;;) {
+    const token = w.peek();
+    if (token.type === TokenType.EOF) {
+      if (current.length > 0) yield endStatement(current, token);
+      return;
+    }
+
+    if (dialect.delimiterCommand && isWord(token, 'DELIMITER') && startsLine(w)) {
+      if (current.length > 0) yield endStatement(current, token);
+      current = [];
+      w.advance();
+      let text = '';
+      while (w.peek().type !== TokenType.EOF && w.peek().line === token.line) text += w.advance().value;
+      delimiter = text || ';';
+      continue;
+    }
+
+    const length = delimiter === ';' ? separatorLength(w, dialect) : delimiterLength(w, delimiter);
+    if (length > 0 && !(delimiter === ';' && isPunct(token, ';') && continuesRoutine(current, dialect))) {
+      for (let i = 0; i < length; i++) w.advance();
+      if (current.length > 0) yield endStatement(current, token);
+      current = [];
+      continue;
+    }
+
+    // A word-like delimiter sticks to the word before it: END$$ is lexed as one word
+    if (delimiter !== ';' && token.type === TokenType.WORD && token.value.length > delimiter.length && token.value.endsWith(delimiter)) {
+      w.advance();
+      current.push({ ...token, value: token.value.slice(0, -delimiter.length), end: token.end - delimiter.length });
+      yield endStatement(current, token);
+      current = [];
+      continue;
+    }
+
+    current.push(w.advance());
+  }
+}
+
+/**
+ * Parses a DDL script one statement at a time. A statement that fails to parse
+ * is yielded as 'unknown' together with its error, and parsing continues with
+ * the next one; a lexical error ends the script.
+ */
+export function* parseStatements(sql: string, dialect: SqlDialect = SqlDialect.MYSQL): Generator<ParsedStatement> {
+  const config = DIALECTS[dialect];
+  const statements = splitStatements(scanTokens(sql, config.lexer), config);
+  for (;;) {
+    let statementTokens: Token[];
+    try {
+      const result = statements.next();
+      if (result.done) return;
+      statementTokens = result.value;
+    } catch (e) {
+      if (!(e instanceof SqlLexError)) throw e;
+      const span = { start: e.offset, end: sql.length, line: e.line, column: e.column };
+      yield {
+        statement: { kind: 'unknown', text: '', span },
+        error: { message: e.message, line: e.line, column: e.column, span },
+      };
+      return;
+    }
+
+    const cursor: Cursor = { sql, tokens: statementTokens, pos: 0, dialect: config };
+    const first = statementTokens[0];
+    const last = statementTokens[statementTokens.length - 2];
+    try {
+      yield { statement: parseStatement(cursor) };
+    } catch (e) {
+      if (!(e instanceof DdlSyntaxError)) throw e;
+      const span = spanOf(first, last);
+      yield {
+        statement: { kind: 'unknown', text: textOf(cursor, first, last), span },
+        error: { message: e.message, line: e.token.line, column: e.token.column, span },
+      };
+    }
+  }
+}
+
+/**
+ * Parses a whole DDL script into statements, see parseStatements.
+ */
+export const parseDDL = (sql: string, dialect: SqlDialect = SqlDialect.MYSQL): DdlScript => {
+  const statements: DdlStatement[] = [];
+  const errors: DdlParseError[] = [];
+  for (const { statement, error } of parseStatements(sql, dialect)) {
+    statements.push(statement);
+    if (error) errors.push(error);
+  }
+  return { source: sql, statements, errors };
+};
@@ -0,0 +1,37 @@
+import { ParsedSchema, ParseOptions, ParseProgress } from '../types';
+import type { ParseRequest, ParseResponse } from './parserWorker';
+
+export interface ParseCallbacks {
+  // Partial schema while the input is still being read
+  onProgress: (schema: ParsedSchema, progress: ParseProgress) => void;
+  onDone: (schema: ParsedSchema) => void;
+  onError: (message: string) => void;
+}
+
+/**
+ * Parses on a dedicated Web Worker so large dumps do not freeze the page.
+ * Returns a function that cancels the parse; no callback fires after it.
+ */
+export const startParse = (input: string | File, options: ParseOptions, callbacks: ParseCallbacks): (() => void) => {
+  const worker = new Worker(new URL('./parserWorker.ts', import.meta.url), { type: 'module' });
+  const cancel = () => worker.terminate();
+
+  worker.onmessage = (event: MessageEvent<ParseResponse>) => {
+    const response = event.data;
+    if (response.kind === 'progress') {
+      callbacks.onProgress(response.schema, response.progress);
+      return;
+    }
+    cancel();
+    if (response.kind === 'done') callbacks.onDone(response.schema);
+    else callbacks.onError(response.message);
+  };
+  worker.onerror = event => {
+    cancel();
+    callbacks.onError(event.message);
+  };
+
+  const request: ParseRequest = { input, options };
+  worker.postMessage(request);
+  return cancel;
+};
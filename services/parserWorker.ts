@@ -0,0 +1,27 @@
+import { ParsedSchema, ParseOptions, ParseProgress } from '../types';
+import { streamSQL } from './sqlParser';
+
+// Main thread -> worker. A File is read inside the worker so large dumps never pass through the UI thread.
+export interface ParseRequest {
+  input: string | File;
+  options: ParseOptions;
+}
+
+// Worker -> main thread
+export type ParseResponse =
+  | { kind: 'progress'; schema: ParsedSchema; progress: ParseProgress }
+  | { kind: 'done'; schema: ParsedSchema }
+  | { kind: 'error'; message: string };
+
+const post = (response: ParseResponse) => self.postMessage(response);
+
+self.onmessage = async (event: MessageEvent<ParseRequest>) => {
+  const { input, options } = event.data;
+  try {
+    const sql = typeof input === 'string' ? input : await input.text();
+    const schema = streamSQL(sql, options, (partial, progress) => post({ kind: 'progress', schema: partial, progress }));
+    post({ kind: 'done', schema });
+  } catch (e) {
+    post({ kind: 'error', message: e instanceof Error ? e.message : String(e) });
+  }
+};
@@ -0,0 +1,85 @@
+import { Cardinality, InferenceRules, ManualRelationship, SqlDialect } from '../types';
+import { DEFAULT_INFERENCE_RULES } from './relationshipInference';
+import { DEFAULT_COMMENT_SEPARATOR, DEFAULT_SAMPLE_ROW_LIMIT } from './schemaBuilder';
+
+const PROJECT_FILE_VERSION = 1;
+
+// Everything needed to reopen a diagram: the SQL, how it was parsed, how relationships are inferred
+// and the relationships drawn by hand
+export interface ProjectFile {
+  version: number;
+  sql: string;
+  // null means auto-detect
+  dialect: SqlDialect | null;
+  sampleRowLimit: number;
+  splitComments: boolean;
+  commentSeparator: string;
+  inferenceRules: InferenceRules;
+  manualRelationships: ManualRelationship[];
+}
+
+export const serializeProject = (project: Omit<ProjectFile, 'version'>) =>
+  JSON.stringify({ version: PROJECT_FILE_VERSION, ...project }, null, 2);
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// Rules missing from an older or hand-edited file fall back to the defaults
+const readRules = (value: unknown): InferenceRules => {
+  const rules = (value ?? {}) as Partial<Record<keyof InferenceRules, unknown>>;
+  const list = (key: 'ignoredColumns' | 'keyPatterns' | 'stripPrefixes' | 'stripSuffixes') =>
+    isStringList(rules[key]) ? rules[key] : DEFAULT_INFERENCE_RULES[key];
+  const owners = Array.isArray(rules.preferredOwners)
+    ? rules.preferredOwners.filter(owner => typeof owner?.column === 'string' && typeof owner?.table === 'string')
+    : DEFAULT_INFERENCE_RULES.preferredOwners;
+  return {
+    ignoredColumns: list('ignoredColumns'),
+    keyPatterns: list('keyPatterns'),
+    preferredOwners: owners.map(({ column, table }) => ({ column, table })),
+    stripPrefixes: list('stripPrefixes'),
+    stripSuffixes: list('stripSuffixes'),
+    idNaming: typeof rules.idNaming === 'boolean' ? rules.idNaming : DEFAULT_INFERENCE_RULES.idNaming,
+  };
+};
+
+// Relationships with missing or malformed fields are dropped
+const readManualRelationships = (value: unknown): ManualRelationship[] => {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter(rel => typeof rel?.id === 'string'
+      && typeof rel.sourceTable === 'string' && isStringList(rel.sourceColumns)
+      && typeof rel.targetTable === 'string' && isStringList(rel.targetColumns)
+      && rel.sourceColumns.length > 0 && rel.sourceColumns.length === rel.targetColumns.length)
+    .map(rel => ({
+      id: rel.id,
+      name: typeof rel.name === 'string' && rel.name ? rel.name : undefined,
+      sourceTable: rel.sourceTable,
+      sourceColumns: rel.sourceColumns,
+      targetTable: rel.targetTable,
+      targetColumns: rel.targetColumns,
+      cardinality: Object.values(Cardinality).includes(rel.cardinality) ? rel.cardinality : Cardinality.ONE_TO_MANY,
+      optional: rel.optional === true,
+      note: typeof rel.note === 'string' ? rel.note : '',
+    }));
+};
+
+// Throws when the text is not a project file this version can read
+export const parseProjectFile = (text: string): ProjectFile => {
+  const data = JSON.parse(text);
+  if (typeof data !== 'object' || data === null || typeof data.sql !== 'string') {
+    throw new Error('Not a SchemaViz project file');
+  }
+  if (typeof data.version !== 'number' || data.version > PROJECT_FILE_VERSION) {
+    throw new Error('The project was saved by a newer version of SchemaViz');
+  }
+  return {
+    version: data.version,
+    sql: data.sql,
+    dialect: Object.values(SqlDialect).includes(data.dialect) ? data.dialect : null,
+    sampleRowLimit: typeof data.sampleRowLimit === 'number' ? data.sampleRowLimit : DEFAULT_SAMPLE_ROW_LIMIT,
+    splitComments: data.splitComments !== false,
+    commentSeparator: typeof data.commentSeparator === 'string' ? data.commentSeparator : DEFAULT_COMMENT_SEPARATOR,
+    inferenceRules: readRules(data.inferenceRules),
+    manualRelationships: readManualRelationships(data.manualRelationships),
+  };
+};
@@ -0,0 +1,340 @@
+import { ColumnDefinition, InferenceRules, JunctionTable, RelationshipDefinition, TableDefinition, TableKind } from '../types';
+import { deriveCardinality } from './cardinality';
+
+// Audit and bookkeeping columns of the CIF schema, and its one key with several candidate owners
+export const DEFAULT_INFERENCE_RULES: InferenceRules = {
+  ignoredColumns: [
+    'COMPANY',
+    'TRAN_TIMESTAMP',
+    'USER_ID',
+    'CREATE_USER_ID',
+    'LAST_CHANGE_USER_ID',
+    'APPR_USER_ID',
+    'AUTH_USER_ID',
+    'CREATE_DATE',
+    'UPDATE_DATE',
+    'LAST_CHANGE_DATE',
+    'TRAN_DATE',
+    'RUN_DATE',
+    'JOB_RUN_ID',
+    'BATCH_NO',
+    'REMARK',
+    'REMARK1',
+    'REMARK2',
+    'REMARK3',
+    'ERROR_CODE',
+    'ERROR_DESC',
+  ],
+  keyPatterns: [],
+  preferredOwners: [{ column: 'CLIENT_NO', table: 'cif_client' }],
+  stripPrefixes: [],
+  stripSuffixes: [],
+  idNaming: true,
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// CLIENT_* matches CLIENT_NO and client_type
+const toRegExp = (pattern: string) =>
+  new RegExp(`^${pattern.trim().split('*').map(part => part.split('?').map(escapeRegExp).join('.')).join('.*')}$`, 'i');
+
+const matcher = (patterns: string[]) => {
+  const regExps = patterns.filter(pattern => pattern.trim()).map(toRegExp);
+  return (name: string) => regExps.some(regExp => regExp.test(name));
+};
+
+const schemaOf = (table: TableDefinition) => table.schema ?? '';
+
+const sameName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+const findColumn = (table: TableDefinition, name: string) => table.columns.find(c => sameName(c.name, name));
+
+// The column name itself, then the name with each configured prefix or suffix removed
+const nameVariants = (name: string, rules: InferenceRules) => {
+  const upper = name.toUpperCase();
+  const variants = [name];
+  rules.stripPrefixes.map(p => p.trim().toUpperCase()).forEach(prefix => {
+    if (prefix && upper.startsWith(prefix) && upper.length > prefix.length) variants.push(name.substring(prefix.length));
+  });
+  rules.stripSuffixes.map(s => s.trim().toUpperCase()).forEach(suffix => {
+    if (suffix && upper.endsWith(suffix) && upper.length > suffix.length) variants.push(name.substring(0, name.length - suffix.length));
+  });
+  return variants;
+};
+
+// client_id or clientId → client
+const idNamingBase = (name: string) => (/^(.+)_id$/i.exec(name) ?? /^(.+[a-z])Id$/.exec(name))?.[1].toLowerCase();
+
+// How much each signal counts towards a relationship's confidence
+const WEIGHTS = { name: 0.3, type: 0.4, comment: 0.15, key: 0.15 };
+
+// Name scores: the column has the key's own name, or matches after stripping or by ID-style naming
+const EXACT_NAME = 1;
+const STRIPPED_NAME = 0.7;
+const ID_NAME = 0.8;
+
+type TypeFamily = 'string' | 'integer' | 'decimal' | 'temporal' | 'binary' | 'boolean' | 'other';
+
+const typeFamily = (column: ColumnDefinition): TypeFamily => {
+  const type = column.baseType;
+  if (/char|text|clob|string/.test(type)) return 'string';
+  if (/^(tiny|small|medium|big)?int(eger)?\d*$|^(small|big)?serial\d*$/.test(type)) return 'integer';
+  // NUMBER(10) and DECIMAL(17,0) hold whole numbers
+  if (/^(decimal|numeric|dec|fixed|number)$/.test(type)) {
+    return column.precision !== undefined && !column.scale ? 'integer' : 'decimal';
+  }
+  if (/^(float|double|real)/.test(type)) return 'decimal';
+  if (/date|time|year|interval/.test(type)) return 'temporal';
+  if (/binary|blob|bytea|raw/.test(type)) return 'binary';
+  if (/^(bool|boolean|bit)$/.test(type)) return 'boolean';
+  return 'other';
+};
+
+// 1 for identical types down to 0 for types that cannot hold the same values, e.g. varchar(50)
+// and decimal(17,2)
+const typeCompatibility = (a: ColumnDefinition, b: ColumnDefinition) => {
+  const family = typeFamily(a);
+  if (family === 'other' || typeFamily(b) === 'other') return a.baseType === b.baseType ? 1 : 0.5;
+  if (family !== typeFamily(b)) {
+    const numeric = new Set([family, typeFamily(b)]);
+    return numeric.has('integer') && numeric.has('decimal') ? 0.5 : 0;
+  }
+  if (family === 'string') {
+    if (a.length === undefined || b.length === undefined || a.length === b.length) return 1;
+    return 0.5 + 0.5 * (Math.min(a.length, b.length) / Math.max(a.length, b.length));
+  }
+  if (family === 'decimal') return a.precision === b.precision && a.scale === b.scale ? 1 : 0.7;
+  return a.baseType === b.baseType ? 1 : 0.8;
+};
+
+// Adjacent character pairs, which work for CJK comments as well as space-separated words
+const bigrams = (text: string) => {
+  const compact = text.toLowerCase().replace(/\s+/g, '');
+  return new Set(Array.from({ length: Math.max(compact.length - 1, 0) }, (_, i) => compact.substring(i, i + 2)));
+};
+
+// Similarity of the short labels, or of the comments when there are no labels; 0.5 when either
+// side has none, so a missing comment neither helps nor hurts
+const commentSimilarity = (a: ColumnDefinition, b: ColumnDefinition) => {
+  const textA = (a.label ?? a.comment).trim();
+  const textB = (b.label ?? b.comment).trim();
+  if (!textA || !textB) return 0.5;
+  if (textA.toLowerCase() === textB.toLowerCase()) return 1;
+  const pairsA = bigrams(textA);
+  const pairsB = bigrams(textB);
+  if (pairsA.size === 0 || pairsB.size === 0) return 0;
+  const shared = [...pairsA].filter(pair => pairsB.has(pair)).length;
+  return (2 * shared) / (pairsA.size + pairsB.size);
+};
+
+// Whether the referenced columns identify one row: the whole primary key, a unique index, or neither
+const keyScore = (table: TableDefinition, columns: string[]) => {
+  const covers = (names: string[]) => names.length === columns.length && columns.every(c => names.some(n => sameName(n, c)));
+  if (covers(table.columns.filter(c => c.isPrimaryKey).map(c => c.name))) return 1;
+  if (table.indexes.some(index => index.isUnique && covers(index.columns))) return 0.9;
+  return 0.2;
+};
+
+const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/**
+ * Confidence of a guessed relationship from 0 to 1. Each column pair is scored on its name match
+ * and on how compatible its types and comments are; the target side scores on being a key.
+ * A pair of incompatible types halves the result.
+ */
+const scoreRelationship = (
+  source: TableDefinition,
+  sourceColumns: string[],
+  target: TableDefinition,
+  targetColumns: string[],
+  nameScores: number[],
+) => {
+  const pairs = sourceColumns.flatMap((name, i) => {
+    const from = findColumn(source, name);
+    const to = findColumn(target, targetColumns[i]);
+    return from && to ? [{ from, to }] : [];
+  });
+  const types = pairs.map(({ from, to }) => typeCompatibility(from, to));
+  const score = WEIGHTS.name * average(nameScores)
+    + WEIGHTS.type * (types.length ? average(types) : 0.5)
+    + WEIGHTS.comment * (pairs.length ? average(pairs.map(({ from, to }) => commentSimilarity(from, to))) : 0.5)
+    + WEIGHTS.key * keyScore(target, targetColumns);
+  return Math.round((types.includes(0) ? score / 2 : score) * 100) / 100;
+};
+
+// Primary key columns that take part in matching; ignored columns such as COMPANY are left out
+const keyColumns = (table: TableDefinition, isIgnored: (name: string) => boolean) =>
+  table.columns.filter(c => c.isPrimaryKey && !isIgnored(c.name));
+
+/**
+ * Guesses relationships from column names where the DDL declares no foreign key. A column
+ * references the table whose single-column primary key has the same name, after prefix and
+ * suffix stripping; with ID-style naming, client_id references client.id. A table that has every
+ * column of a composite primary key references that table with one relationship over all of them.
+ * Pairs a declared foreign key already covers are left out. Each guess carries a confidence score.
+ */
+export const inferRelationships = (
+  tables: TableDefinition[],
+  declared: RelationshipDefinition[],
+  rules: InferenceRules,
+): RelationshipDefinition[] => {
+  const isIgnored = matcher(rules.ignoredColumns);
+  const isKeyName = rules.keyPatterns.some(pattern => pattern.trim()) ? matcher(rules.keyPatterns) : () => true;
+
+  const byName = new Map<string, TableDefinition[]>();
+  tables.forEach(t => {
+    [t.name.toLowerCase(), t.id.toLowerCase()].forEach(key => byName.set(key, [...(byName.get(key) ?? []), t]));
+  });
+  const owners = rules.preferredOwners
+    .filter(rule => rule.column.trim() && rule.table.trim())
+    .map(rule => ({ matches: toRegExp(rule.column), table: byName.get(rule.table.trim().toLowerCase())?.[0] }));
+
+  // Keyed by column name and by schema|column, so a table in the same schema wins. Part of
+  // a composite key does not identify a table on its own and is matched as a whole below.
+  const keyOwners = new Map<string, TableDefinition>();
+  // Composite keys by their sorted lower-case column names, likewise with a schema| variant
+  const compositeOwners = new Map<string, TableDefinition>();
+  tables.forEach(t => {
+    const key = keyColumns(t, isIgnored);
+    if (key.length > 1) {
+      const names = key.map(c => c.name.toLowerCase()).sort().join(',');
+      [names, `${schemaOf(t)}|${names}`].forEach(k => {
+        if (!compositeOwners.has(k)) compositeOwners.set(k, t);
+      });
+      return;
+    }
+    // Nearly every table has an ID; ID-style naming covers those
+    if (key.length === 0 || key[0].name.toUpperCase() === 'ID') return;
+    const name = key[0].name.toLowerCase();
+    [name, `${schemaOf(t)}|${name}`].forEach(k => {
+      if (!keyOwners.has(k)) keyOwners.set(k, t);
+    });
+  });
+  const compositeKeys = [...new Set(compositeOwners.values())].map(owner => ({ owner, columns: keyColumns(owner, isIgnored) }));
+
+  const findOwner = (name: string, schema: string) => {
+    const preferred = owners.find(owner => owner.table && owner.matches.test(name) && findColumn(owner.table, name));
+    if (preferred) return preferred.table;
+    return keyOwners.get(`${schema}|${name.toLowerCase()}`) ?? keyOwners.get(name.toLowerCase());
+  };
+
+  const findIdOwner = (name: string, schema: string) => {
+    const base = idNamingBase(name);
+    if (!base) return undefined;
+    const candidates = [base, `${base}s`, `${base}es`]
+      .flatMap(tableName => byName.get(tableName) ?? [])
+      .filter(t => t.kind === TableKind.TABLE && t.columns.some(c => c.isPrimaryKey && c.name.toLowerCase() === 'id'));
+    return candidates.find(t => schemaOf(t) === schema) ?? candidates[0];
+  };
+
+  const declaredLinks = new Set(
+    declared.flatMap(rel => rel.sourceColumns.map(column => `${rel.sourceTable}|${column.toLowerCase()}|${rel.targetTable}`)),
+  );
+
+  const inferred: RelationshipDefinition[] = [];
+  tables.forEach(t => {
+    // A view's columns come from its base tables, which lineage edges already show
+    if (t.kind === TableKind.VIEW) return;
+
+    // Column of this table for each name variant, e.g. BRANCH for PARENT_BRANCH
+    const columnsByName = new Map<string, string>();
+    t.columns.forEach(c => {
+      if (isIgnored(c.name)) return;
+      nameVariants(c.name, rules).forEach(name => {
+        if (!columnsByName.has(name.toLowerCase())) columnsByName.set(name.toLowerCase(), c.name);
+      });
+    });
+    const matches = compositeKeys
+      .filter(({ owner, columns }) => owner !== t && columns.every(c => columnsByName.has(c.name.toLowerCase())))
+      .map(({ owner, columns }) => ({ owner, columns, names: columns.map(c => c.name.toLowerCase()).sort().join(',') }))
+      // A key in the same schema wins over the same key elsewhere
+      .filter(match => (compositeOwners.get(`${schemaOf(t)}|${match.names}`) ?? compositeOwners.get(match.names)) === match.owner);
+    matches
+      // Only the widest key when one matched key is part of another
+      .filter(match => !matches.some(other => other.columns.length > match.columns.length
+        && match.columns.every(c => other.columns.some(o => sameName(o.name, c.name)))))
+      .forEach(({ owner, columns }) => {
+        const sourceColumns = columns.map(c => columnsByName.get(c.name.toLowerCase()) ?? c.name);
+        if (sourceColumns.every(column => declaredLinks.has(`${t.id}|${column.toLowerCase()}|${owner.id}`))) return;
+        const targetColumns = columns.map(c => c.name);
+        const nameScores = sourceColumns.map((column, i) => (sameName(column, targetColumns[i]) ? EXACT_NAME : STRIPPED_NAME));
+        inferred.push({
+          id: `inferred-${t.id}-${sourceColumns.join('_')}-${owner.id}`,
+          sourceTable: t.id,
+          sourceColumns,
+          targetTable: owner.id,
+          targetColumns,
+          ...deriveCardinality(t, sourceColumns),
+          confidence: scoreRelationship(t, sourceColumns, owner, targetColumns, nameScores),
+        });
+      });
+
+    t.columns.forEach(c => {
+      if (isIgnored(c.name)) return;
+      let target: { table: TableDefinition; column: string; nameScore: number } | undefined;
+      for (const [index, name] of nameVariants(c.name, rules).entries()) {
+        if (isIgnored(name) || !isKeyName(name)) continue;
+        const owner = findOwner(name, schemaOf(t));
+        const column = owner && owner !== t ? findColumn(owner, name) : undefined;
+        if (owner && column) {
+          target = { table: owner, column: column.name, nameScore: index === 0 ? EXACT_NAME : STRIPPED_NAME };
+          break;
+        }
+      }
+      if (!target && rules.idNaming && !c.isPrimaryKey && isKeyName(c.name)) {
+        const owner = findIdOwner(c.name, schemaOf(t));
+        const column = owner?.columns.find(pk => pk.isPrimaryKey && pk.name.toLowerCase() === 'id');
+        if (owner && column) target = { table: owner, column: column.name, nameScore: ID_NAME };
+      }
+      if (!target || declaredLinks.has(`${t.id}|${c.name.toLowerCase()}|${target.table.id}`)) return;
+
+      inferred.push({
+        id: `inferred-${t.id}-${c.name}-${target.table.id}`,
+        sourceTable: t.id,
+        sourceColumns: [c.name],
+        targetTable: target.table.id,
+        targetColumns: [target.column],
+        ...deriveCardinality(t, [c.name]),
+        confidence: scoreRelationship(t, [c.name], target.table, [target.column], [target.nameScore]),
+      });
+    });
+  });
+  return inferred;
+};
+
+// Guesses scoring below this don't make a table a link table
+const JUNCTION_CONFIDENCE = 0.8;
+
+// Numbering columns; a key with one of them belongs to a detail table, e.g. (CLIENT_NO, SEQ_NO)
+const isSequenceColumn = matcher(['SEQ', 'SEQ_NO', 'SEQ_ID', '*_SEQ', '*_SEQ_NO', 'SEQUENCE', 'ORDER_NO', 'LINE_NO', 'ITEM_NO', 'SORT_ORDER']);
+
+/**
+ * Link tables between two others: every column of the primary key belongs to a relationship to
+ * one of exactly two other tables, e.g. a client_contact table keyed by CLIENT_NO and CONTACT_ID.
+ * Takes declared relationships and confident guesses; ignored columns such as COMPANY are left out
+ * of the key. Tables numbered by a sequence column in their key are never link tables.
+ */
+export const findJunctionTables = (
+  tables: TableDefinition[],
+  relationships: RelationshipDefinition[],
+  rules: InferenceRules,
+): JunctionTable[] => {
+  const isIgnored = matcher(rules.ignoredColumns);
+  return tables.flatMap(t => {
+    const key = keyColumns(t, isIgnored);
+    if (t.kind === TableKind.VIEW || key.length < 2 || key.some(c => isSequenceColumn(c.name))) return [];
+    const inKey = (column: string) => key.some(c => sameName(c.name, column));
+    const links = relationships.filter(rel =>
+      rel.sourceTable === t.id && rel.targetTable !== t.id && rel.sourceColumns.every(inKey)
+      && (rel.confidence ?? 1) >= JUNCTION_CONFIDENCE);
+    // The first relationship to each linked table
+    const byTarget = new Map<string, RelationshipDefinition>();
+    links.forEach(rel => {
+      if (!byTarget.has(rel.targetTable)) byTarget.set(rel.targetTable, rel);
+    });
+    const linked = [...byTarget.values()];
+    const covered = key.every(c => linked.some(rel => rel.sourceColumns.some(column => sameName(column, c.name))));
+    if (linked.length !== 2 || !covered) return [];
+    return [{ table: t.id, relationships: [linked[0], linked[1]] }];
+  });
+};
@@ -0,0 +1,1031 @@
+import {
+  CheckConstraintDefinition,
+  ColumnDefinition,
+  Diagnostic,
+  DiagnosticSeverity,
+  IndexDefinition,
+  ParsedSchema,
+  ParseOptions,
+  PartitioningDefinition,
+  RelationshipDefinition,
+  RoutineDefinition,
+  RoutineKind,
+  SqlDialect,
+  TableDefinition,
+  TableKind,
+} from '../types';
+import {
+  AlterColumnChangeNode,
+  AlterTableStatement,
+  ColumnNode,
+  ColumnPositionNode,
+  CommentStatement,
+  CreateIndexStatement,
+  CreateRoutineStatement,
+  CreateTableStatement,
+  CreateViewStatement,
+  DataTypeNode,
+  DdlParseError,
+  DdlScript,
+  DdlStatement,
+  DropStatement,
+  InsertStatement,
+  PartitioningNode,
+  QualifiedName,
+  QueryNode,
+  ReferenceNode,
+  SourceSpan,
+  TableConstraintNode,
+  TableOptionNode,
+} from './ddlAst';
+import { deriveCardinality } from './cardinality';
+
+interface PendingForeignKey {
+  name?: string;
+  columns: string[];
+  reference: ReferenceNode;
+  span: SourceSpan;
+}
+
+// A table under construction; foreign keys are resolved once every statement has run
+interface TableState {
+  table: TableDefinition;
+  // The CREATE statement, for reporting a later conflicting definition
+  span: SourceSpan;
+  primaryKeyName?: string;
+  foreignKeys: PendingForeignKey[];
+}
+
+// A trigger or routine as declared; the names in its body are resolved once every table is known
+interface RoutineState {
+  id: string;
+  schema?: string;
+  statement: CreateRoutineStatement;
+}
+
+// Mutable state threaded through the statements in source order
+interface BuildContext {
+  dialect: SqlDialect;
+  source: string;
+  // Schema selected by the last USE statement
+  schema?: string;
+  tables: TableState[];
+  routines: RoutineState[];
+  diagnostics: Diagnostic[];
+  // INSERT rows kept per table
+  sampleRowLimit: number;
+  commentSeparator: string;
+}
+
+// Types whose first argument is a precision rather than a length
+const PRECISION_TYPES = new Set(['decimal', 'numeric', 'dec', 'fixed', 'float', 'double', 'real', 'number']);
+const FRACTIONAL_SECONDS_TYPES = new Set(['time', 'datetime', 'timestamp']);
+// MySQL types whose arguments are the permitted values
+const VALUE_LIST_TYPES = new Set(['enum', 'set']);
+// PostgreSQL pseudo-types backed by a sequence
+const SERIAL_TYPES = new Set(['serial', 'smallserial', 'bigserial', 'serial2', 'serial4', 'serial8']);
+
+// INSERT rows kept per table when ParseOptions.sampleRowLimit is not set
+export const DEFAULT_SAMPLE_ROW_LIMIT = 100;
+export const DEFAULT_COMMENT_SEPARATOR = '|';
+
+const SNIPPET_LENGTH = 120;
+// Leading DDL keywords worth reporting when a statement is skipped; SET, GRANT, DROP INDEX etc. are expected noise
+const SKIPPED_STATEMENT_PATTERN = /^\s*(?:CREATE|ALTER)\b/i;
+
+// First line of the source text covered by a span, shortened for display
+const snippetOf = (source: string, span: SourceSpan) => {
+  const text = source.substring(span.start, span.end).trim();
+  const lineEnd = text.search(/\r?\n/);
+  const firstLine = (lineEnd === -1 ? text : text.substring(0, lineEnd)).trim();
+  return firstLine.length > SNIPPET_LENGTH ? `${firstLine.substring(0, SNIPPET_LENGTH)}…` : firstLine;
+};
+
+const report = (ctx: BuildContext, severity: DiagnosticSeverity, message: string, span: SourceSpan, line = span.line, column = span.column) => {
+  ctx.diagnostics.push({ severity, message, line, column, snippet: snippetOf(ctx.source, span) });
+};
+
+const warn = (ctx: BuildContext, message: string, span: SourceSpan) => {
+  report(ctx, DiagnosticSeverity.WARNING, message, span);
+};
+
+const sameName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+const tableId = (schema: string | undefined, name: string) => (schema ? `${schema}.${name}` : name);
+
+const displayName = (name: QualifiedName) => tableId(name.schema, name.name);
+
+// An explicit schema must match (tables created without one are accepted too); unqualified names
+// prefer `defaultSchema` and fall back to any schema. Exact case wins over a case-insensitive
+// match since MySQL on Windows/macOS folds table names.
+const findTable = (ctx: BuildContext, name: QualifiedName, defaultSchema = ctx.schema) => {
+  const named = ctx.tables.filter(s => sameName(s.table.name, name.name));
+  const schema = name.schema ?? defaultSchema;
+  const inSchema = schema === undefined ? [] : named.filter(s => s.table.schema !== undefined && sameName(s.table.schema, schema));
+  const candidates = inSchema.length > 0 ? inSchema : name.schema ? named.filter(s => s.table.schema === undefined) : named;
+  return candidates.find(s => s.table.name === name.name) ?? candidates[0];
+};
+
+// Column names are case-insensitive in every supported dialect
+const findColumnIndex = (table: TableDefinition, name: string) =>
+  table.columns.findIndex(c => sameName(c.name, name));
+
+// Leading number of a type argument; Oracle writes lengths as '50 BYTE' or '20 CHAR'
+const toNumber = (arg: string | undefined) => {
+  const match = arg === undefined ? null : /^\s*(-?\d+(?:\.\d+)?)/.exec(arg);
+  return match ? Number(match[1]) : undefined;
+};
+
+const normalizeDataType = (dataType: DataTypeNode) => {
+  const [first, second] = dataType.args;
+  const isArray = (dataType.arrayDimensions ?? 0) > 0;
+  if (PRECISION_TYPES.has(dataType.name)) {
+    return { baseType: dataType.name, isArray, precision: toNumber(first), scale: toNumber(second) };
+  }
+  if (FRACTIONAL_SECONDS_TYPES.has(dataType.name.split(' ')[0])) {
+    return { baseType: dataType.name, isArray, precision: toNumber(first) };
+  }
+  if (VALUE_LIST_TYPES.has(dataType.name)) {
+    return { baseType: dataType.name, isArray, allowedValues: dataType.args };
+  }
+  return { baseType: dataType.name, isArray, length: toNumber(first) };
+};
+
+// Replaces every type-derived field of a column
+const applyDataType = (definition: ColumnDefinition, dataType: DataTypeNode) => {
+  delete definition.length;
+  delete definition.precision;
+  delete definition.scale;
+  delete definition.allowedValues;
+  Object.assign(definition, normalizeDataType(dataType));
+  definition.type = dataType.text || 'unknown';
+  definition.isUnsigned = dataType.unsigned ?? false;
+  definition.isZerofill = dataType.zerofill ?? false;
+  if (SERIAL_TYPES.has(dataType.name)) {
+    definition.isAutoIncrement = true;
+    definition.isNullable = false;
+  }
+};
+
+const setDefault = (column: ColumnDefinition, expression: string) => {
+  column.defaultValue = expression;
+  // Expanded PostgreSQL serial: DEFAULT nextval('seq'::regclass)
+  if (/^nextval\s*\(/i.test(expression)) column.isAutoIncrement = true;
+};
+
+const markPrimaryKey = (column: ColumnDefinition) => {
+  column.isPrimaryKey = true;
+  // Primary key columns are implicitly NOT NULL
+  column.isNullable = false;
+};
+
+const emptyColumn = (name: string): ColumnDefinition => ({
+  name,
+  type: '',
+  comment: '',
+  isPrimaryKey: false,
+  isNullable: true,
+  baseType: '',
+  isArray: false,
+  isUnsigned: false,
+  isZerofill: false,
+  isAutoIncrement: false,
+});
+
+const toColumnDefinition = (column: ColumnNode): ColumnDefinition => {
+  const definition = emptyColumn(column.name);
+  applyDataType(definition, column.dataType);
+  return applyColumnConstraints(definition, column);
+};
+
+const applyColumnConstraints = (definition: ColumnDefinition, column: ColumnNode): ColumnDefinition => {
+  column.constraints.forEach(constraint => {
+    switch (constraint.kind) {
+      case 'primaryKey': markPrimaryKey(definition); break;
+      case 'notNull': definition.isNullable = false; break;
+      case 'null': definition.isNullable = !definition.isPrimaryKey; break;
+      case 'comment': definition.comment = constraint.value; break;
+      case 'default': setDefault(definition, constraint.expression); break;
+      case 'onUpdate': definition.onUpdate = constraint.expression; break;
+      case 'autoIncrement':
+      case 'identity': definition.isAutoIncrement = true; break;
+      case 'generated':
+        definition.expression = constraint.expression;
+        definition.generated = constraint.stored ? 'STORED' : 'VIRTUAL';
+        break;
+      case 'check':
+        definition.checks = [...(definition.checks ?? []), { name: constraint.name, expression: constraint.expression }];
+        break;
+      case 'characterSet': definition.charset = constraint.value; break;
+      case 'collate': definition.collation = constraint.value; break;
+    }
+  });
+
+  return definition;
+};
+
+const placeColumn = (ctx: BuildContext, state: TableState, column: ColumnDefinition, position: ColumnPositionNode | undefined, span: SourceSpan) => {
+  const columns = state.table.columns;
+  if (position && 'first' in position) {
+    columns.unshift(column);
+    return;
+  }
+  if (position && 'after' in position) {
+    const index = findColumnIndex(state.table, position.after);
+    if (index !== -1) {
+      columns.splice(index + 1, 0, column);
+      return;
+    }
+    warn(ctx, `Column '${position.after}' not found in '${state.table.name}', appending '${column.name}' instead`, span);
+  }
+  columns.push(column);
+};
+
+// Inline UNIQUE and REFERENCES on a column become table-level keys
+const addColumnKeys = (state: TableState, column: ColumnNode) => {
+  column.constraints.forEach(constraint => {
+    if (constraint.kind === 'unique') {
+      // MySQL names the implicit index after the column
+      state.table.indexes.push({ name: column.name, columns: [column.name], isUnique: true });
+    } else if (constraint.kind === 'references') {
+      state.foreignKeys.push({ columns: [column.name], reference: constraint.reference, span: column.span });
+    }
+  });
+};
+
+const addColumn = (ctx: BuildContext, state: TableState, column: ColumnNode, position: ColumnPositionNode | undefined, span: SourceSpan) => {
+  if (findColumnIndex(state.table, column.name) !== -1) {
+    warn(ctx, `Column '${column.name}' already exists in '${state.table.name}'`, span);
+    return;
+  }
+  placeColumn(ctx, state, toColumnDefinition(column), position, span);
+  addColumnKeys(state, column);
+};
+
+const addTableConstraint = (ctx: BuildContext, state: TableState, constraint: TableConstraintNode) => {
+  switch (constraint.kind) {
+    case 'primaryKey':
+      state.primaryKeyName = constraint.name;
+      constraint.columns.forEach(part => {
+        const index = findColumnIndex(state.table, part.column);
+        if (index === -1) {
+          warn(ctx, `Primary key column '${part.column}' not found in '${state.table.name}'`, constraint.span);
+        } else {
+          markPrimaryKey(state.table.columns[index]);
+        }
+      });
+      break;
+    case 'index': {
+      const columns = constraint.columns.map(part => part.column);
+      const index: IndexDefinition = {
+        // MySQL names an unnamed index after its first column
+        name: constraint.name ?? columns[0],
+        columns,
+        isUnique: constraint.unique,
+        method: constraint.method,
+      };
+      state.table.indexes.push(index);
+      break;
+    }
+    case 'foreignKey':
+      state.foreignKeys.push({
+        name: constraint.name,
+        columns: constraint.columns,
+        reference: constraint.reference,
+        span: constraint.span,
+      });
+      break;
+    case 'default': {
+      const index = findColumnIndex(state.table, constraint.column);
+      if (index === -1) {
+        warn(ctx, `Default constraint targets unknown column '${constraint.column}' in '${state.table.name}'`, constraint.span);
+      } else {
+        setDefault(state.table.columns[index], constraint.expression);
+      }
+      break;
+    }
+    case 'check':
+      state.table.checks.push({ name: constraint.name, expression: constraint.expression });
+      break;
+  }
+};
+
+const countChecks = (table: TableDefinition) =>
+  table.checks.length + table.columns.reduce((count, column) => count + (column.checks?.length ?? 0), 0);
+
+// Named CHECK constraints can be declared on the table or on one of its columns
+const dropCheck = (table: TableDefinition, name: string) => {
+  const keep = (check: CheckConstraintDefinition) => !check.name || !sameName(check.name, name);
+  table.checks = table.checks.filter(keep);
+  table.columns.forEach(column => {
+    if (column.checks) column.checks = column.checks.filter(keep);
+  });
+};
+
+// In SQLite a lone INTEGER PRIMARY KEY aliases the rowid and is assigned automatically
+const applyRowidAlias = (state: TableState, statement: CreateTableStatement) => {
+  if (statement.options.some(option => option.name === 'WITHOUT ROWID')) return;
+  const keys = state.table.columns.filter(column => column.isPrimaryKey);
+  if (keys.length === 1 && keys[0].baseType === 'integer') keys[0].isAutoIncrement = true;
+};
+
+// Options with a dedicated field; everything else lands in `other`
+const OPTION_FIELDS: Record<string, 'engine' | 'charset' | 'collation' | 'rowFormat'> = {
+  ENGINE: 'engine',
+  TYPE: 'engine',
+  'CHARACTER SET': 'charset',
+  CHARSET: 'charset',
+  COLLATE: 'collation',
+  ROW_FORMAT: 'rowFormat',
+};
+
+const applyTableOption = (table: TableDefinition, option: TableOptionNode) => {
+  if (option.name === 'COMMENT') {
+    table.comment = option.value;
+  } else if (option.name === 'AUTO_INCREMENT') {
+    table.options.autoIncrement = toNumber(option.value);
+  } else if (OPTION_FIELDS[option.name]) {
+    table.options[OPTION_FIELDS[option.name]] = option.value;
+  } else {
+    table.options.other[option.name] = option.value;
+  }
+};
+
+const toPartitioning = (node: PartitioningNode): PartitioningDefinition => ({
+  ...node,
+  columns: [...node.columns],
+  subpartitioning: node.subpartitioning && { ...node.subpartitioning, columns: [...node.subpartitioning.columns] },
+  partitions: node.partitions.map(partition => ({ ...partition })),
+});
+
+// PostgreSQL partitions are full tables, but they only repeat the parent, so they are
+// recorded in the parent's partition list instead of becoming nodes of their own
+const attachPartition = (ctx: BuildContext, statement: CreateTableStatement, partitionOf: { parent: QualifiedName; bound: string }) => {
+  const parent = findTable(ctx, partitionOf.parent);
+  if (!parent) {
+    warn(ctx, `Partition '${statement.name.name}' belongs to unknown table '${displayName(partitionOf.parent)}'`, statement.span);
+    return;
+  }
+  if (!parent.table.partitioning) {
+    warn(ctx, `Table '${parent.table.id}' is not partitioned`, statement.span);
+    return;
+  }
+  parent.table.partitioning.partitions.push({ name: statement.name.name, bound: partitionOf.bound });
+};
+
+// CREATE TABLE ... LIKE copies columns, keys and options, but not foreign keys
+const copyTableDefinition = (ctx: BuildContext, state: TableState, like: QualifiedName, span: SourceSpan) => {
+  const source = findTable(ctx, like, state.table.schema);
+  if (!source) {
+    warn(ctx, `Table '${state.table.id}' copies unknown table '${displayName(like)}'`, span);
+    return;
+  }
+  const { columns, indexes, comment, options, partitioning, checks } = structuredClone(source.table);
+  Object.assign(state.table, { columns, indexes, comment, options, partitioning, checks });
+  state.primaryKeyName = source.primaryKeyName;
+};
+
+// CREATE TABLE ... AS SELECT. Columns listed without a type only rename the selected ones
+// (PostgreSQL, Oracle); typed columns come first and the selected ones follow (MySQL)
+const addQueryColumns = (ctx: BuildContext, state: TableState, statement: CreateTableStatement, query: QueryNode) => {
+  const { columns } = resolveQuery(ctx, `Table '${state.table.id}'`, query, state.table.schema, statement.span);
+  const renames = statement.columns.every(column => !column.dataType.name);
+  if (renames) {
+    statement.columns.forEach((column, index) => {
+      if (columns[index]) columns[index].name = column.name;
+    });
+    state.table.columns = columns;
+    return;
+  }
+  statement.columns.forEach(column => addColumn(ctx, state, column, undefined, column.span));
+  columns
+    .filter(column => findColumnIndex(state.table, column.name) === -1)
+    .forEach(column => state.table.columns.push(column));
+};
+
+// What two definitions of a table must agree on to count as the same table
+const columnSignature = (table: TableDefinition) =>
+  table.columns
+    .map(c => `${c.name.toLowerCase()} ${c.type.toLowerCase()}${c.isNullable ? '' : ' not null'}${c.isPrimaryKey ? ' primary key' : ''}`)
+    .join(', ');
+
+const versionOf = (ctx: BuildContext, span: SourceSpan) => ({
+  line: span.line,
+  column: span.column,
+  text: ctx.source.substring(span.start, span.end).trim(),
+});
+
+// A table defined again without a DROP in between, e.g. when several files are pasted together,
+// replaces the earlier definition in place. Differing columns are reported with both versions.
+const placeTable = (ctx: BuildContext, state: TableState) => {
+  const index = ctx.tables.findIndex(s => sameName(s.table.id, state.table.id));
+  if (index === -1) {
+    ctx.tables.push(state);
+    return;
+  }
+  const previous = ctx.tables[index];
+  // mysqldump creates a placeholder table for each view, which the view then replaces
+  if (previous.table.kind === TableKind.TABLE && columnSignature(previous.table) !== columnSignature(state.table)) {
+    ctx.diagnostics.push({
+      severity: DiagnosticSeverity.WARNING,
+      message: `Table '${state.table.id}' is defined again with different columns; the definition on line ${state.span.line} replaces the one on line ${previous.span.line}`,
+      line: state.span.line,
+      column: state.span.column,
+      snippet: snippetOf(ctx.source, state.span),
+      versions: { previous: versionOf(ctx, previous.span), current: versionOf(ctx, state.span) },
+    });
+  }
+  ctx.tables[index] = state;
+};
+
+// DROP of an object that does not exist is ignored: scripts commonly drop before creating
+const dropObjects = (ctx: BuildContext, statement: DropStatement) => {
+  statement.names.forEach(name => {
+    if (statement.target === 'table' || statement.target === 'view') {
+      const state = findTable(ctx, name);
+      if (!state) return;
+      // Triggers go with their table
+      ctx.routines = ctx.routines.filter(r => !r.statement.table || findTable(ctx, r.statement.table, r.schema) !== state);
+      ctx.tables = ctx.tables.filter(s => s !== state);
+      return;
+    }
+    const id = tableId(name.schema ?? ctx.schema, name.name);
+    ctx.routines = ctx.routines.filter(r => !(r.statement.routineKind === statement.target && sameName(r.id, id)));
+  });
+};
+
+const createTable = (ctx: BuildContext, statement: CreateTableStatement) => {
+  if (statement.partitionOf) {
+    attachPartition(ctx, statement, statement.partitionOf);
+    return;
+  }
+  const schema = statement.name.schema ?? ctx.schema;
+  const state: TableState = {
+    table: {
+      id: tableId(schema, statement.name.name),
+      name: statement.name.name,
+      schema,
+      kind: TableKind.TABLE,
+      comment: '',
+      columns: [],
+      indexes: [],
+      options: { other: {} },
+      checks: [],
+    },
+    span: statement.span,
+    foreignKeys: [],
+  };
+  if (statement.like) copyTableDefinition(ctx, state, statement.like, statement.span);
+  statement.options.forEach(option => applyTableOption(state.table, option));
+  if (statement.partitioning) state.table.partitioning = toPartitioning(statement.partitioning);
+
+  if (statement.query) {
+    addQueryColumns(ctx, state, statement, statement.query);
+  } else {
+    statement.columns.forEach(column => addColumn(ctx, state, column, undefined, column.span));
+  }
+  statement.constraints.forEach(constraint => addTableConstraint(ctx, state, constraint));
+  if (ctx.dialect === SqlDialect.SQLITE) applyRowidAlias(state, statement);
+  placeTable(ctx, state);
+};
+
+const renameColumnReferences = (state: TableState, oldName: string, newName: string) => {
+  const rename = (name: string) => (sameName(name, oldName) ? newName : name);
+  state.table.indexes.forEach(index => {
+    index.columns = index.columns.map(rename);
+  });
+  if (state.table.partitioning) state.table.partitioning.columns = state.table.partitioning.columns.map(rename);
+  state.foreignKeys.forEach(fk => {
+    fk.columns = fk.columns.map(rename);
+  });
+  state.table.sampleData?.rows.forEach(row => {
+    const key = Object.keys(row).find(name => sameName(name, oldName));
+    if (key === undefined || key === newName) return;
+    row[newName] = row[key];
+    delete row[key];
+  });
+};
+
+const dropColumnReferences = (state: TableState, name: string) => {
+  state.table.indexes = state.table.indexes
+    .map(index => ({ ...index, columns: index.columns.filter(c => !sameName(c, name)) }))
+    .filter(index => index.columns.length > 0);
+  state.foreignKeys = state.foreignKeys.filter(fk => !fk.columns.some(c => sameName(c, name)));
+};
+
+// Shared by MODIFY and CHANGE: replaces a column definition, keeping table-level key membership
+const replaceColumn = (ctx: BuildContext, state: TableState, oldName: string, column: ColumnNode, position: ColumnPositionNode | undefined, span: SourceSpan) => {
+  const index = findColumnIndex(state.table, oldName);
+  if (index === -1) {
+    warn(ctx, `Column '${oldName}' not found in '${state.table.name}'`, span);
+    return;
+  }
+  const previous = state.table.columns[index];
+  // Oracle's MODIFY may omit the type and change only the listed attributes
+  const definition = column.dataType.name
+    ? toColumnDefinition(column)
+    : applyColumnConstraints({ ...previous, name: column.name }, column);
+  if (previous.isPrimaryKey) markPrimaryKey(definition);
+
+  if (position) {
+    state.table.columns.splice(index, 1);
+    placeColumn(ctx, state, definition, position, span);
+  } else {
+    state.table.columns[index] = definition;
+  }
+  if (!sameName(previous.name, definition.name)) {
+    renameColumnReferences(state, previous.name, definition.name);
+  }
+  addColumnKeys(state, column);
+};
+
+const renameTable = (ctx: BuildContext, state: TableState, newName: QualifiedName) => {
+  // Foreign keys pointing at the table follow the rename, as they do in the database
+  const referencing = ctx.tables.flatMap(other =>
+    other.foreignKeys.filter(fk => findTable(ctx, fk.reference.table, other.table.schema) === state));
+  const schema = newName.schema ?? state.table.schema;
+  const oldId = state.table.id;
+  state.table.id = tableId(schema, newName.name);
+  state.table.name = newName.name;
+  state.table.schema = schema;
+  referencing.forEach(fk => {
+    fk.reference = { ...fk.reference, table: { schema, name: newName.name } };
+  });
+  ctx.tables.forEach(other => {
+    if (other.table.dependencies) other.table.dependencies = other.table.dependencies.map(id => (id === oldId ? state.table.id : id));
+  });
+};
+
+const alterColumn = (ctx: BuildContext, state: TableState, name: string, change: AlterColumnChangeNode, span: SourceSpan) => {
+  const index = findColumnIndex(state.table, name);
+  if (index === -1) {
+    warn(ctx, `Cannot alter unknown column '${name}' in '${state.table.name}'`, span);
+    return;
+  }
+  const column = state.table.columns[index];
+  switch (change.kind) {
+    case 'setDefault': setDefault(column, change.expression); break;
+    case 'dropDefault': delete column.defaultValue; break;
+    case 'setNotNull': column.isNullable = false; break;
+    case 'dropNotNull': column.isNullable = !column.isPrimaryKey; break;
+    case 'setType': applyDataType(column, change.dataType); break;
+    case 'setIdentity': column.isAutoIncrement = true; break;
+  }
+};
+
+const alterTable = (ctx: BuildContext, statement: AlterTableStatement) => {
+  const state = findTable(ctx, statement.name);
+  if (!state) {
+    warn(ctx, `ALTER TABLE targets unknown table '${displayName(statement.name)}'`, statement.span);
+    return;
+  }
+
+  statement.actions.forEach(action => {
+    const table = state.table;
+    switch (action.kind) {
+      case 'addColumn':
+        addColumn(ctx, state, action.column, action.position, action.span);
+        break;
+      case 'dropColumn': {
+        const index = findColumnIndex(table, action.column);
+        if (index === -1) {
+          warn(ctx, `Cannot drop unknown column '${action.column}' from '${table.name}'`, action.span);
+        } else {
+          table.columns.splice(index, 1);
+          dropColumnReferences(state, action.column);
+        }
+        break;
+      }
+      case 'modifyColumn':
+        replaceColumn(ctx, state, action.column.name, action.column, action.position, action.span);
+        break;
+      case 'changeColumn':
+        replaceColumn(ctx, state, action.oldName, action.column, action.position, action.span);
+        break;
+      case 'renameColumn': {
+        const index = findColumnIndex(table, action.oldName);
+        if (index === -1) {
+          warn(ctx, `Cannot rename unknown column '${action.oldName}' in '${table.name}'`, action.span);
+        } else {
+          table.columns[index] = { ...table.columns[index], name: action.newName };
+          renameColumnReferences(state, action.oldName, action.newName);
+        }
+        break;
+      }
+      case 'alterColumn':
+        alterColumn(ctx, state, action.column, action.change, action.span);
+        break;
+      case 'addConstraint':
+        addTableConstraint(ctx, state, action.constraint);
+        break;
+      case 'dropPrimaryKey':
+        table.columns.forEach(c => {
+          c.isPrimaryKey = false;
+        });
+        state.primaryKeyName = undefined;
+        break;
+      case 'dropIndex': {
+        const before = table.indexes.length;
+        table.indexes = table.indexes.filter(index => !sameName(index.name, action.name));
+        if (table.indexes.length === before) {
+          warn(ctx, `Cannot drop unknown index '${action.name}' from '${table.name}'`, action.span);
+        }
+        break;
+      }
+      case 'dropForeignKey': {
+        const before = state.foreignKeys.length;
+        state.foreignKeys = state.foreignKeys.filter(fk => !fk.name || !sameName(fk.name, action.name));
+        if (state.foreignKeys.length === before) {
+          warn(ctx, `Cannot drop unknown foreign key '${action.name}' from '${table.name}'`, action.span);
+        }
+        break;
+      }
+      case 'dropConstraint': {
+        const fkCount = state.foreignKeys.length;
+        const indexCount = table.indexes.length;
+        const checkCount = countChecks(table);
+        state.foreignKeys = state.foreignKeys.filter(fk => !fk.name || !sameName(fk.name, action.name));
+        table.indexes = table.indexes.filter(index => !sameName(index.name, action.name));
+        dropCheck(table, action.name);
+        if (state.primaryKeyName && sameName(state.primaryKeyName, action.name)) {
+          table.columns.forEach(c => {
+            c.isPrimaryKey = false;
+          });
+          state.primaryKeyName = undefined;
+        } else if (state.foreignKeys.length === fkCount && table.indexes.length === indexCount && countChecks(table) === checkCount) {
+          warn(ctx, `Cannot drop unknown constraint '${action.name}' from '${table.name}'`, action.span);
+        }
+        break;
+      }
+      case 'renameTable':
+        renameTable(ctx, state, action.newName);
+        break;
+      case 'option':
+        applyTableOption(table, action.option);
+        break;
+      case 'partitionBy':
+        table.partitioning = toPartitioning(action.partitioning);
+        break;
+      case 'removePartitioning':
+        delete table.partitioning;
+        break;
+      case 'addPartitions':
+        if (!table.partitioning) {
+          warn(ctx, `Cannot add partitions to '${table.name}', which is not partitioned`, action.span);
+        } else {
+          table.partitioning.partitions.push(...action.partitions.map(partition => ({ ...partition })));
+        }
+        break;
+      case 'dropPartitions': {
+        const partitioning = table.partitioning;
+        action.names.forEach(name => {
+          if (!partitioning?.partitions.some(p => sameName(p.name, name))) {
+            warn(ctx, `Cannot drop unknown partition '${name}' from '${table.name}'`, action.span);
+          }
+        });
+        if (partitioning) partitioning.partitions = partitioning.partitions.filter(p => !action.names.some(name => sameName(p.name, name)));
+        break;
+      }
+    }
+  });
+};
+
+// A column selected from a base column keeps its type and comment but none of the table's keys
+const copyDerivedColumn = (source: ColumnDefinition, name: string): ColumnDefinition => {
+  const column: ColumnDefinition = { ...source, name, isPrimaryKey: false, isAutoIncrement: false };
+  delete column.defaultValue;
+  delete column.onUpdate;
+  delete column.checks;
+  if (column.generated) {
+    delete column.generated;
+    delete column.expression;
+  }
+  return column;
+};
+
+// Columns and source tables of a view or CREATE TABLE ... AS SELECT query; owner names the
+// statement in warnings, e.g. "View 'v'"
+const resolveQuery = (ctx: BuildContext, owner: string, query: QueryNode, schema: string | undefined, span: SourceSpan) => {
+  const sources = query.sources.flatMap(source => {
+    const state = findTable(ctx, source.table, schema);
+    if (!state) {
+      warn(ctx, `${owner} reads from unknown table '${displayName(source.table)}'`, span);
+      return [];
+    }
+    return [{ table: state.table, alias: source.alias, nested: source.nested }];
+  });
+  // An alias hides the table name as a qualifier
+  const qualifies = (source: { table: TableDefinition; alias?: string }, qualifier: string) =>
+    sameName(source.alias ?? source.table.name, qualifier);
+  // The select list only sees the main FROM clause, each table and alias once; subquery tables
+  // are dependencies only
+  const selectable = sources.filter((source, index) => !source.nested && sources.findIndex(other =>
+    !other.nested && other.table === source.table && sameName(other.alias ?? '', source.alias ?? '')) === index);
+
+  const columns: ColumnDefinition[] = [];
+  query.columns.forEach(item => {
+    if (item.kind === 'star') {
+      selectable
+        .filter(source => !item.qualifier || qualifies(source, item.qualifier))
+        .forEach(source => source.table.columns.forEach(column => columns.push(copyDerivedColumn(column, column.name))));
+      return;
+    }
+    const reference = item.reference;
+    const base = reference && selectable
+      .filter(source => !reference.qualifier || qualifies(source, reference.qualifier))
+      .map(source => source.table.columns[findColumnIndex(source.table, reference.column)])
+      .find(Boolean);
+    if (base) {
+      columns.push(copyDerivedColumn(base, item.name));
+    } else {
+      const column = emptyColumn(item.name);
+      if (!reference) column.expression = item.expression;
+      columns.push(column);
+    }
+  });
+  return { columns, sources };
+};
+
+const createView = (ctx: BuildContext, statement: CreateViewStatement) => {
+  const schema = statement.name.schema ?? ctx.schema;
+  const id = tableId(schema, statement.name.name);
+  // CREATE OR REPLACE; mysqldump also creates a placeholder table for each view before the view itself
+  ctx.tables = ctx.tables.filter(s => !sameName(s.table.id, id));
+
+  const { columns, sources } = resolveQuery(ctx, `View '${id}'`, statement, schema, statement.span);
+  statement.columnNames.forEach((name, index) => {
+    if (columns[index]) columns[index].name = name;
+  });
+
+  ctx.tables.push({
+    table: {
+      id,
+      name: statement.name.name,
+      schema,
+      kind: TableKind.VIEW,
+      comment: '',
+      columns,
+      indexes: [],
+      options: { other: {} },
+      checks: [],
+      dependencies: [...new Set(sources.map(source => source.table.id))],
+    },
+    span: statement.span,
+    foreignKeys: [],
+  });
+};
+
+const createIndex = (ctx: BuildContext, statement: CreateIndexStatement) => {
+  const state = findTable(ctx, statement.table);
+  if (!state) {
+    warn(ctx, `CREATE INDEX targets unknown table '${displayName(statement.table)}'`, statement.span);
+    return;
+  }
+  const { name, unique, columns, method, span } = statement;
+  addTableConstraint(ctx, state, { kind: 'index', name, unique, columns, method, span });
+};
+
+const applyComment = (ctx: BuildContext, statement: CommentStatement) => {
+  const state = findTable(ctx, statement.table);
+  if (!state) {
+    warn(ctx, `COMMENT ON targets unknown table '${displayName(statement.table)}'`, statement.span);
+    return;
+  }
+  if (statement.target === 'table') {
+    state.table.comment = statement.text;
+    return;
+  }
+  const index = findColumnIndex(state.table, statement.column ?? '');
+  if (index === -1) {
+    warn(ctx, `COMMENT ON targets unknown column '${statement.column}' in '${state.table.name}'`, statement.span);
+    return;
+  }
+  state.table.columns[index].comment = statement.text;
+};
+
+const ROUTINE_KINDS: Record<CreateRoutineStatement['routineKind'], RoutineKind> = {
+  trigger: RoutineKind.TRIGGER,
+  procedure: RoutineKind.PROCEDURE,
+  function: RoutineKind.FUNCTION,
+};
+
+const createRoutine = (ctx: BuildContext, statement: CreateRoutineStatement) => {
+  const schema = statement.name.schema ?? ctx.schema;
+  const id = tableId(schema, statement.name.name);
+  // CREATE OR REPLACE; triggers and routines have separate namespaces
+  ctx.routines = ctx.routines.filter(r => !(sameName(r.id, id) && r.statement.routineKind === statement.routineKind));
+  ctx.routines.push({ id, schema, statement });
+};
+
+// Keeps the first rows of each table; values are stored under the column names of the definition
+const insertRows = (ctx: BuildContext, statement: InsertStatement) => {
+  if (ctx.sampleRowLimit <= 0) return;
+  const state = findTable(ctx, statement.table);
+  if (!state) {
+    warn(ctx, `INSERT targets unknown table '${displayName(statement.table)}'`, statement.span);
+    return;
+  }
+  const table = state.table;
+  const columns = (statement.columns ?? table.columns.map(c => c.name)).map(name => {
+    const index = findColumnIndex(table, name);
+    return index === -1 ? name : table.columns[index].name;
+  });
+  const data = table.sampleData ?? (table.sampleData = { rows: [], total: 0 });
+  let mismatched = 0;
+  statement.rows.forEach(values => {
+    if (values.length !== columns.length) {
+      mismatched++;
+      return;
+    }
+    data.total++;
+    if (data.rows.length < ctx.sampleRowLimit) {
+      data.rows.push(Object.fromEntries(columns.map((name, i) => [name, values[i]])));
+    }
+  });
+  if (mismatched > 0) {
+    warn(ctx, `${mismatched} INSERT row(s) for '${table.name}' do not match its ${columns.length} columns`, statement.span);
+  }
+};
+
+// '所属机构号|机构代码' gives label '所属机构号' and description '机构代码'. Without a
+// separator, or when one side is empty, both are the whole comment.
+const splitComment = (target: TableDefinition | ColumnDefinition, separator: string) => {
+  if (!target.comment) {
+    delete target.label;
+    delete target.description;
+    return;
+  }
+  const index = separator ? target.comment.indexOf(separator) : -1;
+  const label = index === -1 ? target.comment.trim() : target.comment.substring(0, index).trim();
+  const description = index === -1 ? label : target.comment.substring(index + separator.length).trim();
+  target.label = label || description;
+  target.description = description || label;
+};
+
+const resolveRelationship = (ctx: BuildContext, state: TableState, fk: PendingForeignKey): RelationshipDefinition | null => {
+  // Unqualified references resolve against the schema the referencing table lives in
+  const target = findTable(ctx, fk.reference.table, state.table.schema)?.table;
+  if (!target) {
+    warn(ctx, `Foreign key on '${state.table.id}' references unknown table '${displayName(fk.reference.table)}'`, fk.span);
+    return null;
+  }
+
+  // Spell both sides as the columns are defined so the diagram finds their handles
+  const defined = (table: TableDefinition, names: string[]) =>
+    names.map(name => table.columns[findColumnIndex(table, name)]?.name);
+  const sourceColumns = defined(state.table, fk.columns);
+  const missingSource = fk.columns.find((_, i) => sourceColumns[i] === undefined);
+  if (missingSource !== undefined) {
+    warn(ctx, `Foreign key on '${state.table.id}' uses unknown column '${missingSource}'`, fk.span);
+    return null;
+  }
+
+  // REFERENCES without a column list points at the target's primary key
+  const referenced = fk.reference.columns.length > 0
+    ? fk.reference.columns
+    : target.columns.filter(c => c.isPrimaryKey).map(c => c.name);
+  const targetColumns = defined(target, referenced);
+  const missingTarget = referenced.find((_, i) => targetColumns[i] === undefined);
+  if (missingTarget !== undefined) {
+    warn(ctx, `Foreign key on '${state.table.id}' references unknown column '${missingTarget}' in '${target.id}'`, fk.span);
+    return null;
+  }
+
+  return {
+    id: `fk-${state.table.id}-${fk.name ?? fk.columns.join('_')}-${target.id}`,
+    name: fk.name,
+    sourceTable: state.table.id,
+    sourceColumns,
+    targetTable: target.id,
+    targetColumns,
+    onDelete: fk.reference.onDelete,
+    onUpdate: fk.reference.onUpdate,
+    ...deriveCardinality(state.table, sourceColumns),
+  };
+};
+
+// Names in a body that match no table are temporary tables, CTEs, trigger pseudo-tables such as
+// inserted/deleted, or tables outside the script, and are dropped without a warning
+const resolveRoutines = (ctx: BuildContext): RoutineDefinition[] => {
+  const tableIds = (names: QualifiedName[], schema: string | undefined) =>
+    [...new Set(names.flatMap(name => findTable(ctx, name, schema)?.table.id ?? []))];
+  const callable = ctx.routines.filter(r => r.statement.routineKind !== 'trigger');
+
+  const routines = ctx.routines.map(({ id, schema, statement }): RoutineDefinition => {
+    const table = statement.table && findTable(ctx, statement.table, schema);
+    if (statement.table && !table) {
+      warn(ctx, `Trigger '${id}' fires on unknown table '${displayName(statement.table)}'`, statement.span);
+    }
+    const calls = statement.calls.flatMap(name => {
+      const target = callable.find(r => sameName(r.statement.name.name, name.name) && (!name.schema || sameName(r.schema ?? '', name.schema)));
+      return target ? [target.id] : [];
+    });
+    return {
+      id,
+      name: statement.name.name,
+      schema,
+      kind: ROUTINE_KINDS[statement.routineKind],
+      table: table ? table.table.id : undefined,
+      event: statement.event,
+      reads: tableIds(statement.reads, schema),
+      writes: tableIds(statement.writes, schema),
+      calls: [...new Set(calls)],
+    };
+  });
+
+  // Fold in what the called routines touch, following calls of calls
+  const byId = new Map(routines.filter(r => r.kind !== RoutineKind.TRIGGER).map(r => [r.id, r]));
+  return routines.map(routine => {
+    const reads = new Set(routine.reads);
+    const writes = new Set(routine.writes);
+    const seen = new Set([routine.id]);
+    const pending = [...routine.calls];
+    for (let id = pending.pop(); id !== undefined; id = pending.pop()) {
+      const called = byId.get(id);
+      if (!called || seen.has(called.id)) continue;
+      seen.add(called.id);
+      called.reads.forEach(id => reads.add(id));
+      called.writes.forEach(id => writes.add(id));
+      pending.push(...called.calls);
+    }
+    return { ...routine, reads: [...reads], writes: [...writes] };
+  });
+};
+
+export interface SchemaBuilder {
+  // Applies the next statement; `error` is set when it failed to parse and was kept as 'unknown'
+  apply: (statement: DdlStatement, error?: DdlParseError) => void;
+  // The schema so far. Foreign keys and triggers on tables that may still be created are left out quietly.
+  snapshot: () => ParsedSchema;
+  // The final schema, with a warning for every foreign key that cannot be resolved
+  finish: () => ParsedSchema;
+}
+
+/**
+ * Applies statements in source order as they arrive and derives the UI model
+ * from the current state of every table.
+ */
+export const createSchemaBuilder = (dialect: SqlDialect, source: string, options: ParseOptions = {}): SchemaBuilder => {
+  const ctx: BuildContext = {
+    dialect,
+    source,
+    tables: [],
+    routines: [],
+    diagnostics: [],
+    sampleRowLimit: options.sampleRowLimit ?? DEFAULT_SAMPLE_ROW_LIMIT,
+    commentSeparator: options.commentSeparator ?? DEFAULT_COMMENT_SEPARATOR,
+  };
+
+  const apply = (statement: DdlStatement, error?: DdlParseError) => {
+    if (error) {
+      report(ctx, DiagnosticSeverity.ERROR, error.message, error.span, error.line, error.column);
+      return;
+    }
+    switch (statement.kind) {
+      case 'createTable': createTable(ctx, statement); break;
+      case 'createView': createView(ctx, statement); break;
+      case 'createRoutine': createRoutine(ctx, statement); break;
+      case 'drop': dropObjects(ctx, statement); break;
+      case 'alterTable': alterTable(ctx, statement); break;
+      case 'createIndex': createIndex(ctx, statement); break;
+      case 'comment': applyComment(ctx, statement); break;
+      case 'use': ctx.schema = statement.schema || undefined; break;
+      case 'insert': insertRows(ctx, statement); break;
+      case 'unknown':
+        if (SKIPPED_STATEMENT_PATTERN.test(statement.text)) {
+          report(ctx, DiagnosticSeverity.INFO, 'Unsupported statement skipped', statement.span);
+        }
+        break;
+    }
+  };
+
+  const build = (final: boolean): ParsedSchema => {
+    // References are resolved once every table is known, so forward references work
+    const resolveCtx = final ? ctx : { ...ctx, diagnostics: [] };
+    const relationships: RelationshipDefinition[] = [];
+    ctx.tables.forEach(state => {
+      state.foreignKeys.forEach(fk => {
+        const relationship = resolveRelationship(resolveCtx, state, fk);
+        if (relationship) relationships.push(relationship);
+      });
+      splitComment(state.table, ctx.commentSeparator);
+      state.table.columns.forEach(column => splitComment(column, ctx.commentSeparator));
+    });
+    const routines = resolveRoutines(resolveCtx);
+
+    const diagnostics = [...ctx.diagnostics].sort((a, b) => a.line - b.line || a.column - b.column);
+    return { dialect, tables: ctx.tables.map(s => s.table), relationships, routines, diagnostics };
+  };
+
+  return { apply, snapshot: () => build(false), finish: () => build(true) };
+};
+
+export const buildSchema = (script: DdlScript, dialect: SqlDialect, options: ParseOptions = {}): ParsedSchema => {
+  const builder = createSchemaBuilder(dialect, script.source, options);
+  // A statement that failed to parse is kept as 'unknown' and has an error with the same span
+  const errors = new Map(script.errors.map(error => [error.span.start, error]));
+  script.statements.forEach(statement => {
+    builder.apply(statement, statement.kind === 'unknown' ? errors.get(statement.span.start) : undefined);
+  });
+  return builder.finish();
+};
@@ -0,0 +1,136 @@
+import { SqlDialect } from '../types';
+import { LexerOptions } from './sqlLexer';
+
+export interface DialectConfig {
+  dialect: SqlDialect;
+  label: string;
+  lexer: LexerOptions;
+  // MySQL-style INDEX/KEY definitions inside CREATE TABLE. Elsewhere `key` is a legal column name.
+  inlineIndexes: boolean;
+  // Whether options after the column list carry meaning; Oracle's are physical storage only
+  tableOptions: boolean;
+  // SQL*Plus style '/' lines ending a statement
+  slashTerminator: boolean;
+  // SQL Server GO lines ending a batch
+  batchSeparator: boolean;
+  // mysql client DELIMITER lines changing the statement terminator
+  delimiterCommand: boolean;
+  // SQLite trigger bodies: BEGIN ... END with a ';' after every statement inside
+  triggerBlocks: boolean;
+}
+
+export const DIALECTS: Record<SqlDialect, DialectConfig> = {
+  [SqlDialect.MYSQL]: {
+    dialect: SqlDialect.MYSQL,
+    label: 'MySQL',
+    lexer: { identifierQuotes: '`', backslashEscapes: true, hashComments: true, dollarQuotes: false, versionedComments: true },
+    inlineIndexes: true,
+    tableOptions: true,
+    slashTerminator: false,
+    batchSeparator: false,
+    delimiterCommand: true,
+    triggerBlocks: false,
+  },
+  [SqlDialect.POSTGRESQL]: {
+    dialect: SqlDialect.POSTGRESQL,
+    label: 'PostgreSQL',
+    lexer: { identifierQuotes: '"', backslashEscapes: false, hashComments: false, dollarQuotes: true, versionedComments: false },
+    inlineIndexes: false,
+    tableOptions: true,
+    slashTerminator: false,
+    batchSeparator: false,
+    delimiterCommand: false,
+    triggerBlocks: false,
+  },
+  [SqlDialect.ORACLE]: {
+    dialect: SqlDialect.ORACLE,
+    label: 'Oracle',
+    lexer: { identifierQuotes: '"', backslashEscapes: false, hashComments: false, dollarQuotes: false, versionedComments: false },
+    inlineIndexes: false,
+    tableOptions: false,
+    slashTerminator: true,
+    batchSeparator: false,
+    delimiterCommand: false,
+    triggerBlocks: false,
+  },
+  [SqlDialect.SQLSERVER]: {
+    dialect: SqlDialect.SQLSERVER,
+    label: 'SQL Server',
+    lexer: { identifierQuotes: '["', backslashEscapes: false, hashComments: false, dollarQuotes: false, versionedComments: false },
+    inlineIndexes: false,
+    // ON [PRIMARY], TEXTIMAGE_ON and WITH (...) only place the table in a filegroup
+    tableOptions: false,
+    slashTerminator: false,
+    batchSeparator: true,
+    delimiterCommand: false,
+    triggerBlocks: false,
+  },
+  [SqlDialect.SQLITE]: {
+    dialect: SqlDialect.SQLITE,
+    label: 'SQLite',
+    lexer: { identifierQuotes: '"[`', backslashEscapes: false, hashComments: false, dollarQuotes: false, versionedComments: false },
+    inlineIndexes: false,
+    tableOptions: true,
+    slashTerminator: false,
+    batchSeparator: false,
+    delimiterCommand: false,
+    triggerBlocks: true,
+  },
+};
+
+// Telltale constructs for each dialect; the dialect with the highest total weight wins
+const DETECTION_RULES: { dialect: SqlDialect; pattern: RegExp; weight: number }[] = [
+  { dialect: SqlDialect.MYSQL, pattern: /`\w+`/, weight: 3 },
+  { dialect: SqlDialect.MYSQL, pattern: /\bENGINE\s*=/i, weight: 3 },
+  { dialect: SqlDialect.MYSQL, pattern: /\bAUTO_INCREMENT\b/i, weight: 2 },
+  { dialect: SqlDialect.MYSQL, pattern: /\bCOMMENT\s+'/i, weight: 1 },
+  { dialect: SqlDialect.MYSQL, pattern: /\/\*!\d{5}/, weight: 4 },
+  { dialect: SqlDialect.MYSQL, pattern: /^DELIMITER\s/im, weight: 3 },
+  { dialect: SqlDialect.POSTGRESQL, pattern: /\b(?:BIG|SMALL)?SERIAL\b/i, weight: 3 },
+  { dialect: SqlDialect.POSTGRESQL, pattern: /::\s*\w+/, weight: 2 },
+  { dialect: SqlDialect.POSTGRESQL, pattern: /\bCOMMENT\s+ON\s+(?:TABLE|COLUMN)\b/i, weight: 2 },
+  { dialect: SqlDialect.POSTGRESQL, pattern: /\bOWNER\s+TO\b/i, weight: 3 },
+  { dialect: SqlDialect.POSTGRESQL, pattern: /\bGENERATED\s+(?:ALWAYS|BY\s+DEFAULT)\s+AS\s+IDENTITY\b/i, weight: 2 },
+  { dialect: SqlDialect.POSTGRESQL, pattern: /\$\$/, weight: 2 },
+  { dialect: SqlDialect.POSTGRESQL, pattern: /\b(?:TIMESTAMPTZ|JSONB|BYTEA|CHARACTER\s+VARYING)\b/i, weight: 2 },
+  { dialect: SqlDialect.POSTGRESQL, pattern: /\bpublic\.\w+/, weight: 1 },
+  { dialect: SqlDialect.ORACLE, pattern: /\bN?VARCHAR2\s*\(/i, weight: 4 },
+  { dialect: SqlDialect.ORACLE, pattern: /\bNUMBER\s*\(/i, weight: 2 },
+  { dialect: SqlDialect.ORACLE, pattern: /\bSEGMENT\s+CREATION\b/i, weight: 3 },
+  { dialect: SqlDialect.ORACLE, pattern: /\b(?:PCTFREE|INITRANS|MAXTRANS)\b/i, weight: 3 },
+  { dialect: SqlDialect.ORACLE, pattern: /\bSYSDATE\b/i, weight: 2 },
+  { dialect: SqlDialect.ORACLE, pattern: /\bNOT\s+NULL\s+ENABLE\b/i, weight: 2 },
+  { dialect: SqlDialect.SQLSERVER, pattern: /\[dbo\]/i, weight: 4 },
+  { dialect: SqlDialect.SQLSERVER, pattern: /^\s*GO\s*$/im, weight: 3 },
+  { dialect: SqlDialect.SQLSERVER, pattern: /\bIDENTITY\s*\(\s*\d+\s*,\s*\d+\s*\)/i, weight: 3 },
+  { dialect: SqlDialect.SQLSERVER, pattern: /\bsp_addextendedproperty\b/i, weight: 3 },
+  { dialect: SqlDialect.SQLSERVER, pattern: /\b(?:NON)?CLUSTERED\b/i, weight: 2 },
+  { dialect: SqlDialect.SQLSERVER, pattern: /\bN?VARCHAR\s*\(\s*MAX\s*\)/i, weight: 2 },
+  { dialect: SqlDialect.SQLITE, pattern: /\bAUTOINCREMENT\b/i, weight: 3 },
+  { dialect: SqlDialect.SQLITE, pattern: /\bWITHOUT\s+ROWID\b/i, weight: 4 },
+  { dialect: SqlDialect.SQLITE, pattern: /\bPRAGMA\b/i, weight: 3 },
+  { dialect: SqlDialect.SQLITE, pattern: /\bsqlite_\w+/i, weight: 3 },
+  { dialect: SqlDialect.SQLITE, pattern: /\bINTEGER\s+PRIMARY\s+KEY\b/i, weight: 1 },
+];
+
+/** Guesses the dialect of a script, falling back to MySQL. */
+export const detectDialect = (sql: string): SqlDialect => {
+  // Only the head of very large dumps is inspected
+  const sample = sql.length > 200000 ? sql.substring(0, 200000) : sql;
+  const scores = new Map<SqlDialect, number>();
+  DETECTION_RULES.forEach(rule => {
+    if (rule.pattern.test(sample)) {
+      scores.set(rule.dialect, (scores.get(rule.dialect) ?? 0) + rule.weight);
+    }
+  });
+
+  let best = SqlDialect.MYSQL;
+  let bestScore = 0;
+  scores.forEach((score, dialect) => {
+    if (score > bestScore) {
+      best = dialect;
+      bestScore = score;
+    }
+  });
+  return best;
+};
@@ -0,0 +1,248 @@
+export enum TokenType {
+  WORD = 'WORD',
+  QUOTED_IDENTIFIER = 'QUOTED_IDENTIFIER',
+  STRING = 'STRING',
+  NUMBER = 'NUMBER',
+  PUNCTUATION = 'PUNCTUATION',
+  OPERATOR = 'OPERATOR',
+  EOF = 'EOF'
+}
+
+export interface Token {
+  type: TokenType;
+  // Unescaped value: identifier without quotes, string contents, punctuation char
+  value: string;
+  // Offsets into the original source, end is exclusive
+  start: number;
+  end: number;
+  // 1-based position of the first character
+  line: number;
+  column: number;
+}
+
+// Dialect-specific lexical rules, see sqlDialects.ts
+export interface LexerOptions {
+  // Characters that open a quoted identifier: '`', '"' and/or '['
+  identifierQuotes: string;
+  // Whether backslash escapes apply inside '...' strings
+  backslashEscapes: boolean;
+  // Whether # starts a line comment
+  hashComments: boolean;
+  // PostgreSQL $$...$$ and $tag$...$tag$ strings
+  dollarQuotes: boolean;
+  // MySQL /*!40101 ... */ comments, whose body the server executes
+  versionedComments: boolean;
+}
+
+export const DEFAULT_LEXER_OPTIONS: LexerOptions = {
+  identifierQuotes: '`',
+  backslashEscapes: true,
+  hashComments: true,
+  dollarQuotes: false,
+  versionedComments: true,
+};
+
+const PUNCTUATION = new Set(['(', ')', ',', ';', '.']);
+const MULTI_CHAR_OPERATORS = ['<=>', '<>', '<=', '>=', '!=', '||', '&&', '::', ':='];
+
+const isWordStart = (ch: string) => /[A-Za-z_$@\u0080-\uffff]/.test(ch);
+const isWordPart = (ch: string) => /[A-Za-z0-9_$@\u0080-\uffff]/.test(ch);
+const isDigit = (ch: string) => ch >= '0' && ch <= '9';
+
+export class SqlLexError extends Error {
+  line: number;
+  column: number;
+  // Offset of the offending character in the source
+  offset: number;
+
+  constructor(message: string, line: number, column: number, offset: number) {
+    super(`${message} (line ${line}, column ${column})`);
+    this.name = 'SqlLexError';
+    this.line = line;
+    this.column = column;
+    this.offset = offset;
+  }
+}
+
+/**
+ * Splits SQL source into tokens lazily, so a large dump can be parsed statement
+ * by statement without holding every token. Comments and whitespace are dropped,
+ * so a `CREATE TABLE` inside a block comment never reaches the parser. The last
+ * token is always EOF.
+ */
+export function* scanTokens(sql: string, options: LexerOptions = DEFAULT_LEXER_OPTIONS): Generator<Token> {
+  let pos = 0;
+  let line = 1;
+  let lineStart = 0;
+  // Inside a versioned comment, whose closing */ is skipped like its opening
+  let inVersionedComment = false;
+
+  // Moves the cursor to `target`, keeping line/column bookkeeping in sync
+  const advanceTo = (target: number) => {
+    for (; pos < target; pos++) {
+      if (sql[pos] === '\n') {
+        line++;
+        lineStart = pos + 1;
+      }
+    }
+  };
+
+  const token = (type: TokenType, value: string, start: number, startLine: number, startColumn: number): Token =>
+    ({ type, value, start, end: pos, line: startLine, column: startColumn });
+
+  // Reads a quoted run whose opening char is at `from`; a doubled closing char is an escaped quote
+  const readQuoted = (from: number, quote: string, allowBackslash: boolean): string => {
+    const startLine = line;
+    const startColumn = pos - lineStart + 1;
+    let value = '';
+    let k = from + 1;
+    while (k < sql.length) {
+      const ch = sql[k];
+      if (allowBackslash && ch === '\\' && k + 1 < sql.length) {
+        const escaped = sql[k + 1];
+        value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped === '0' ? '\0' : escaped;
+        k += 2;
+        continue;
+      }
+      if (ch === quote) {
+        if (sql[k + 1] === quote) {
+          value += quote;
+          k += 2;
+          continue;
+        }
+        advanceTo(k + 1);
+        return value;
+      }
+      value += ch;
+      k++;
+    }
+    throw new SqlLexError(`Unterminated ${quote} quoted text`, startLine, startColumn, from);
+  };
+
+  // Matches a $tag$ delimiter at `from`, returning it or null
+  const readDollarTag = (from: number): string | null => {
+    const match = /^\$(?:[A-Za-z_][A-Za-z0-9_]*)?\$/.exec(sql.substring(from, from + 64));
+    return match ? match[0] : null;
+  };
+
+  while (pos < sql.length) {
+    const ch = sql[pos];
+    const next = sql[pos + 1];
+
+    if (/\s/.test(ch)) {
+      advanceTo(pos + 1);
+      continue;
+    }
+
+    // Line comments: -- and #
+    if ((ch === '-' && next === '-') || (ch === '#' && options.hashComments)) {
+      const endOfLine = sql.indexOf('\n', pos);
+      advanceTo(endOfLine === -1 ? sql.length : endOfLine);
+      continue;
+    }
+
+    // Versioned comments: /*!40101 SET NAMES utf8 */, MariaDB /*M!100100 ... */
+    if (options.versionedComments && ch === '/' && next === '*' && /^(?:!|M!)/.test(sql.substring(pos + 2, pos + 4))) {
+      let k = sql.indexOf('!', pos) + 1;
+      while (isDigit(sql[k] ?? '')) k++;
+      advanceTo(k);
+      inVersionedComment = true;
+      continue;
+    }
+    if (inVersionedComment && ch === '*' && next === '/') {
+      advanceTo(pos + 2);
+      inVersionedComment = false;
+      continue;
+    }
+
+    // Block comments
+    if (ch === '/' && next === '*') {
+      const close = sql.indexOf('*/', pos + 2);
+      if (close === -1) {
+        throw new SqlLexError('Unterminated block comment', line, pos - lineStart + 1, pos);
+      }
+      advanceTo(close + 2);
+      continue;
+    }
+
+    const start = pos;
+    const startLine = line;
+    const startColumn = pos - lineStart + 1;
+
+    if (options.identifierQuotes.includes(ch)) {
+      const value = readQuoted(pos, ch === '[' ? ']' : ch, false);
+      yield token(TokenType.QUOTED_IDENTIFIER, value, start, startLine, startColumn);
+      continue;
+    }
+
+    if (ch === '\'' || ch === '"') {
+      const value = readQuoted(pos, ch, options.backslashEscapes);
+      yield token(TokenType.STRING, value, start, startLine, startColumn);
+      continue;
+    }
+
+    // Prefixed strings: E'..' (escapes always on) and N'..' (national charset)
+    if ((ch === 'E' || ch === 'e' || ch === 'N' || ch === 'n') && next === '\'') {
+      const value = readQuoted(pos + 1, '\'', options.backslashEscapes || ch === 'E' || ch === 'e');
+      yield token(TokenType.STRING, value, start, startLine, startColumn);
+      continue;
+    }
+
+    if (ch === '$' && options.dollarQuotes) {
+      const tag = readDollarTag(pos);
+      if (tag) {
+        const close = sql.indexOf(tag, pos + tag.length);
+        if (close === -1) {
+          throw new SqlLexError(`Unterminated ${tag} quoted text`, startLine, startColumn, start);
+        }
+        const value = sql.substring(pos + tag.length, close);
+        advanceTo(close + tag.length);
+        yield token(TokenType.STRING, value, start, startLine, startColumn);
+        continue;
+      }
+    }
+
+    if (isDigit(ch) || (ch === '.' && isDigit(next ?? ''))) {
+      let k = pos;
+      while (k < sql.length && isDigit(sql[k])) k++;
+      if (sql[k] === '.') {
+        k++;
+        while (k < sql.length && isDigit(sql[k])) k++;
+      }
+      if ((sql[k] === 'e' || sql[k] === 'E') && /[-+0-9]/.test(sql[k + 1] ?? '')) {
+        k += 2;
+        while (k < sql.length && isDigit(sql[k])) k++;
+      }
+      // Identifiers may start with digits in MySQL (e.g. 1st_level)
+      if (k < sql.length && isWordPart(sql[k]) && !isDigit(sql[k])) {
+        while (k < sql.length && isWordPart(sql[k])) k++;
+        advanceTo(k);
+        yield token(TokenType.WORD, sql.substring(start, k), start, startLine, startColumn);
+        continue;
+      }
+      advanceTo(k);
+      yield token(TokenType.NUMBER, sql.substring(start, k), start, startLine, startColumn);
+      continue;
+    }
+
+    if (isWordStart(ch)) {
+      let k = pos + 1;
+      while (k < sql.length && isWordPart(sql[k])) k++;
+      advanceTo(k);
+      yield token(TokenType.WORD, sql.substring(start, k), start, startLine, startColumn);
+      continue;
+    }
+
+    if (PUNCTUATION.has(ch)) {
+      advanceTo(pos + 1);
+      yield token(TokenType.PUNCTUATION, ch, start, startLine, startColumn);
+      continue;
+    }
+
+    const operator = MULTI_CHAR_OPERATORS.find(op => sql.startsWith(op, pos)) ?? ch;
+    advanceTo(pos + operator.length);
+    yield token(TokenType.OPERATOR, operator, start, startLine, startColumn);
+  }
+
+  yield { type: TokenType.EOF, value: '', start: sql.length, end: sql.length, line, column: pos - lineStart + 1 };
+}
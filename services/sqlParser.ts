@@ -1,118 +1,39 @@
-import { TableDefinition, ColumnDefinition } from '../types';
-
-export const parseSQL = (sql: string): TableDefinition[] => {
-  const tables: TableDefinition[] = [];
-  
-  // Split by "CREATE TABLE" to find table blocks
-  const tableBlocks = sql.split(/CREATE\s+TABLE/i);
-
-  // Skip the first chunk if it doesn't contain a table definition
-  for (let i = 1; i < tableBlocks.length; i++) {
-    const block = tableBlocks[i];
-    
-    // 1. Extract Table Name
-    const nameMatch = block.match(/^\s*`?(\w+)`?/);
-    if (!nameMatch) continue;
-    const tableName = nameMatch[1];
-
-    // 2. Extract Body (between first ( and matching last ))
-    const firstParenIndex = block.indexOf('(');
-    if (firstParenIndex === -1) continue;
-
-    let parenCount = 1;
-    let lastParenIndex = -1;
-    
-    // Find the matching closing parenthesis for the table body
-    // We count parentheses to handle types like decimal(10,2) correctly
-    for (let k = firstParenIndex + 1; k < block.length; k++) {
-        if (block[k] === '(') parenCount++;
-        else if (block[k] === ')') parenCount--;
-        
-        if (parenCount === 0) {
-            lastParenIndex = k;
-            break;
-        }
-    }
-    
-    if (lastParenIndex === -1) continue;
-
-    const body = block.substring(firstParenIndex + 1, lastParenIndex);
-    const afterBody = block.substring(lastParenIndex + 1);
-
-    // Extract comment from the part after the table definition
-    const tableCommentMatch = afterBody.match(/COMMENT\s*=\s*'([^']+)'/i);
-    const tableComment = tableCommentMatch ? tableCommentMatch[1] : '';
-    
-    const columns: ColumnDefinition[] = [];
-    const primaryKeys: Set<string> = new Set();
-
-    // Pre-scan for PRIMARY KEY (...) definition within the body
-    // Handling cases where keys might be quoted or unquoted
-    const pkLineMatch = body.match(/PRIMARY KEY\s*\(([^)]+)\)/i);
-    if (pkLineMatch) {
-      const pkCols = pkLineMatch[1].split(',').map(s => s.trim().replace(/`/g, '').replace(/'/g, ''));
-      pkCols.forEach(c => primaryKeys.add(c));
-    }
+import { ParsedSchema, ParseOptions, ParseProgress } from '../types';
+import { parseDDL, parseStatements } from './ddlParser';
+import { buildSchema, createSchemaBuilder } from './schemaBuilder';
+import { detectDialect } from './sqlDialects';
 
-    // 4. Parse Columns
-    const rawLines = body.split('\n');
-
-    rawLines.forEach(line => {
-      line = line.trim();
-      // Skip comments, keys, constraints, etc.
-      if (!line || 
-          line.startsWith('PRIMARY KEY') || 
-          line.startsWith('KEY') || 
-          line.startsWith('INDEX') || 
-          line.startsWith('UNIQUE') || 
-          line.startsWith('CONSTRAINT') || 
-          line.startsWith('FOREIGN KEY') ||
-          line.startsWith('--') || 
-          line.startsWith('/*') ||
-          line.startsWith('PARTITION')) {
-        return;
-      }
-
-      // Regex for column definition: matches `col_name` or col_name at start
-      const colNameMatch = line.match(/^`?(\w+)`?/);
-      if (!colNameMatch) return;
-
-      const colName = colNameMatch[1];
-      
-      // Skip if this line is actually a key definition that wasn't caught by startsWith (e.g. indented or different case)
-      if (['KEY', 'PRIMARY', 'INDEX', 'UNIQUE', 'CONSTRAINT', 'FOREIGN', 'CHECK'].includes(colName.toUpperCase())) return;
-
-      // Basic type extraction
-      // Matches the type definition after the name, e.g., "varchar(50)" or "decimal(17, 2)"
-      const remaining = line.substring(colNameMatch[0].length).trim();
-      const typeMatch = remaining.match(/^(\w+(?:\([^)]+\))?)/);
-      const colType = typeMatch ? typeMatch[1] : 'unknown';
-
-      // Extract comment
-      const colCommentMatch = line.match(/COMMENT\s+'([^']+)'/i);
-      const colComment = colCommentMatch ? colCommentMatch[1] : '';
-
-      // Check nullable
-      const isNotNull = /NOT NULL/i.test(line);
-
-      columns.push({
-        name: colName,
-        type: colType,
-        comment: colComment,
-        isPrimaryKey: primaryKeys.has(colName),
-        isNullable: !isNotNull
-      });
-    });
-
-    tables.push({
-      id: tableName,
-      name: tableName,
-      comment: tableComment,
-      columns: columns
-    });
-  }
+// Minimum time between two partial results of streamSQL
+const PROGRESS_INTERVAL_MS = 300;
 
-  return tables;
+export const parseSQL = (sql: string, options: ParseOptions = {}): ParsedSchema => {
+  const dialect = options.dialect ?? detectDialect(sql);
+  return buildSchema(parseDDL(sql, dialect), dialect, options);
+};
+
+/**
+ * Same result as parseSQL, but applies the script one statement at a time and
+ * hands the schema built so far to `onProgress` every few hundred milliseconds.
+ */
+export const streamSQL = (
+  sql: string,
+  options: ParseOptions,
+  onProgress: (schema: ParsedSchema, progress: ParseProgress) => void,
+): ParsedSchema => {
+  const dialect = options.dialect ?? detectDialect(sql);
+  const builder = createSchemaBuilder(dialect, sql, options);
+  let statements = 0;
+  let reportedAt = Date.now();
+  for (const { statement, error } of parseStatements(sql, dialect)) {
+    builder.apply(statement, error);
+    statements++;
+    if (Date.now() - reportedAt >= PROGRESS_INTERVAL_MS) {
+      onProgress(builder.snapshot(), { processed: statement.span.end, total: sql.length, statements });
+      // Counted from after the snapshot, which gets slower as the schema grows
+      reportedAt = Date.now();
+    }
+  }
+  return builder.finish();
 };
 
 export const INITIAL_SQL = `
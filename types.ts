@@ -1,20 +1,267 @@
 export interface ColumnDefinition {
   name: string;
-  type: string;
+  type: string; // as written, e.g. varchar(50)
   comment: string;
+  // Comment split on ParseOptions.commentSeparator: short label and full description
+  label?: string;
+  description?: string;
   isPrimaryKey: boolean;
   isNullable: boolean;
+  // Normalized type parts: baseType 'decimal', precision 17, scale 2
+  baseType: string;
+  length?: number;
+  precision?: number;
+  scale?: number;
+  isArray: boolean;
+  isUnsigned: boolean;
+  isZerofill: boolean;
+  isAutoIncrement: boolean;
+  defaultValue?: string; // SQL expression as written, e.g. 'N' or CURRENT_TIMESTAMP
+  onUpdate?: string;
+  charset?: string;
+  collation?: string;
+  // Generation expression of a generated column; for views, columns computed by an expression
+  // rather than taken from a base table
+  expression?: string;
+  generated?: 'VIRTUAL' | 'STORED';
+  // ENUM and SET members, unquoted
+  allowedValues?: string[];
+  // CHECK constraints declared on the column itself
+  checks?: CheckConstraintDefinition[];
+}
+
+export interface CheckConstraintDefinition {
+  name?: string;
+  expression: string; // condition as written, without the surrounding parentheses
+}
+
+export interface IndexDefinition {
+  name: string;
+  columns: string[];
+  isUnique: boolean;
+  method?: string; // BTREE, HASH, FULLTEXT, SPATIAL
+}
+
+// Options after the column list; COMMENT is kept on the table itself
+export interface TableOptions {
+  engine?: string;
+  charset?: string;
+  collation?: string;
+  rowFormat?: string;
+  // Next AUTO_INCREMENT value
+  autoIncrement?: number;
+  // Remaining options by upper-case name, e.g. { STATS_PERSISTENT: '0', TABLESPACE: 'users' }
+  other: Record<string, string>;
+}
+
+export interface PartitionKeyDefinition {
+  method: string; // RANGE, LIST, HASH, KEY, RANGE COLUMNS, LINEAR HASH...
+  expression: string; // key as written, e.g. YEAR(created_at)
+  columns: string[]; // columns the key reads
+  count?: number; // PARTITIONS n
+}
+
+export interface PartitionDefinition {
+  name: string;
+  bound?: string; // as written, e.g. VALUES LESS THAN (2024)
+}
+
+export interface PartitioningDefinition extends PartitionKeyDefinition {
+  interval?: string; // Oracle interval partitioning
+  subpartitioning?: PartitionKeyDefinition;
+  partitions: PartitionDefinition[];
+}
+
+// Rows loaded from INSERT statements, capped per table
+export interface SampleData {
+  // Values by column name; string literals are unquoted, other values are kept as written
+  rows: Record<string, string | null>[];
+  // Rows seen in the script, including those beyond the cap
+  total: number;
+}
+
+export enum TableKind {
+  TABLE = 'TABLE',
+  VIEW = 'VIEW'
 }
 
 export interface TableDefinition {
-  id: string; // usually same as name
+  id: string; // schema-qualified name, e.g. "sales.orders", or just the name when unqualified
   name: string;
+  // Schema (MySQL database) from a qualified name or the active USE statement
+  schema?: string;
+  kind: TableKind;
   comment: string;
+  label?: string;
+  description?: string;
   columns: ColumnDefinition[];
+  indexes: IndexDefinition[];
+  options: TableOptions;
+  partitioning?: PartitioningDefinition;
+  // Table-level CHECK constraints
+  checks: CheckConstraintDefinition[];
+  // Views only: ids of the tables and views the query reads from
+  dependencies?: string[];
+  sampleData?: SampleData;
+}
+
+export enum RoutineKind {
+  TRIGGER = 'TRIGGER',
+  PROCEDURE = 'PROCEDURE',
+  FUNCTION = 'FUNCTION'
+}
+
+// A trigger or stored routine with the tables its body reads and writes
+export interface RoutineDefinition {
+  id: string; // schema-qualified name, like TableDefinition.id
+  name: string;
+  schema?: string;
+  kind: RoutineKind;
+  // Triggers only: id of the table the trigger fires on, and when, e.g. 'AFTER INSERT OR UPDATE'
+  table?: string;
+  event?: string;
+  // Table ids, including those touched by the routines it calls
+  reads: string[];
+  writes: string[];
+  // Ids of the routines it calls directly
+  calls: string[];
+}
+
+export type ReferentialAction = 'CASCADE' | 'SET NULL' | 'SET DEFAULT' | 'RESTRICT' | 'NO ACTION';
+
+// Read from the referenced table to the referencing one: one client has many accounts
+export enum Cardinality {
+  ONE_TO_ONE = 'ONE_TO_ONE',
+  ONE_TO_MANY = 'ONE_TO_MANY',
+  MANY_TO_MANY = 'MANY_TO_MANY'
+}
+
+// A foreign key declared in the DDL, as opposed to one inferred from column names
+export interface RelationshipDefinition {
+  id: string;
+  name?: string;
+  sourceTable: string; // table id
+  sourceColumns: string[];
+  targetTable: string; // table id
+  targetColumns: string[];
+  onDelete?: ReferentialAction;
+  onUpdate?: ReferentialAction;
+  // From the keys of the referencing table: 1:1 when its columns are also its primary key or unique
+  cardinality: Cardinality;
+  // A nullable foreign key: a referencing row need not have a referenced one
+  optional: boolean;
+  // Inferred relationships only: 0 to 1, how likely the guess is to be a real reference
+  confidence?: number;
+}
+
+// A relationship drawn on the diagram by hand. Kept across re-parses and saved with the project;
+// it is not drawn while either table or one of its columns is missing from the parsed schema.
+export interface ManualRelationship extends RelationshipDefinition {
+  note: string;
+}
+
+// A table whose primary key is made up of references to two other tables, linking them many-to-many
+export interface JunctionTable {
+  table: string; // table id
+  // One relationship to each of the two linked tables
+  relationships: [RelationshipDefinition, RelationshipDefinition];
+}
+
+// Column name patterns in inference rules are case-insensitive and may use * and ? wildcards
+export interface OwnerRule {
+  column: string; // e.g. CLIENT_NO or *_CLIENT_NO
+  table: string; // table name or id, e.g. cif_client
+}
+
+// How relationships are guessed from column names where the DDL declares no foreign key
+export interface InferenceRules {
+  // Columns that never reference another table, e.g. audit columns such as CREATE_USER_ID
+  ignoredColumns: string[];
+  // When set, only columns matching one of these patterns, e.g. *_NO, may reference another table
+  keyPatterns: string[];
+  // The table a key column points at when several tables have it as their primary key
+  preferredOwners: OwnerRule[];
+  // Stripped from a column name before it is matched, e.g. PARENT_ turns PARENT_CLIENT_NO into CLIENT_NO
+  stripPrefixes: string[];
+  stripSuffixes: string[];
+  // client_id → the id primary key of table client (or clients)
+  idNaming: boolean;
+}
+
+export enum DiagnosticSeverity {
+  // The statement could not be parsed and was dropped
+  ERROR = 'ERROR',
+  // The statement was parsed but could not be fully applied, e.g. ALTER TABLE on a missing table
+  WARNING = 'WARNING',
+  // DDL the parser does not model was skipped
+  INFO = 'INFO'
+}
+
+// One of two conflicting definitions of the same object
+export interface DefinitionVersion {
+  line: number;
+  column: number;
+  // Statement as written
+  text: string;
+}
+
+export interface Diagnostic {
+  severity: DiagnosticSeverity;
+  message: string;
+  // 1-based position in the source
+  line: number;
+  column: number;
+  // First line of the offending statement or clause
+  snippet: string;
+  // Duplicate definitions: the one that was replaced and the one that is kept
+  versions?: { previous: DefinitionVersion; current: DefinitionVersion };
+}
+
+export enum SqlDialect {
+  MYSQL = 'MYSQL',
+  POSTGRESQL = 'POSTGRESQL',
+  ORACLE = 'ORACLE',
+  SQLSERVER = 'SQLSERVER',
+  SQLITE = 'SQLITE'
+}
+
+export interface ParseOptions {
+  // Detected from the input when left unset
+  dialect?: SqlDialect;
+  // INSERT rows kept per table; 0 ignores INSERT statements
+  sampleRowLimit?: number;
+  // Splits comments like '所属机构号|机构代码' into a short label and a description; '' turns this off
+  commentSeparator?: string;
+}
+
+// What a column row shows on the diagram
+export enum ColumnLabelMode {
+  NAME = 'NAME',
+  LABEL = 'LABEL',
+  BOTH = 'BOTH'
+}
+
+// How relationship edges show cardinality
+export enum RelationshipNotation {
+  CROWS_FOOT = 'CROWS_FOOT',
+  IDEF1X = 'IDEF1X',
+  CHEN = 'CHEN'
+}
+
+// How far a streamed parse has got
+export interface ParseProgress {
+  // Characters of the input consumed so far
+  processed: number;
+  total: number;
+  statements: number;
 }
 
 export interface ParsedSchema {
+  dialect: SqlDialect;
   tables: TableDefinition[];
+  relationships: RelationshipDefinition[];
+  routines: RoutineDefinition[];
+  diagnostics: Diagnostic[];
 }
 
 export enum ViewMode {